@@ -1,17 +1,50 @@
-import React, { useEffect, useState } from 'react';
-import { BrowserRouter as Router, Routes, Route, Link, Navigate } from 'react-router-dom';
+import React, { useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route, Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Calendar, User as UserIcon } from 'lucide-react';
 import { useStore } from './store/useStore';
 import { TeacherDashboard } from './pages/TeacherDashboard';
 import { StudentDashboard } from './pages/StudentDashboard';
+import { StudentManagement } from './pages/StudentManagement';
+import { ClassPage } from './pages/ClassPage';
+import { SeriesPage } from './pages/SeriesPage';
+import { RequireAuth } from './components/RequireAuth';
 import { AuthForm } from './components/AuthForm';
 import { UserProfile } from './components/UserProfile';
 import { SchoolDetails } from './components/SchoolDetails';
+import { NotificationsMenu } from './components/NotificationsMenu';
+
+// Après la connexion, l'utilisateur revient sur la page qu'il voulait ouvrir (un lien de cours partagé par exemple)
+function LoginPage({ onSubmit }: { onSubmit: React.ComponentProps<typeof AuthForm>['onSubmit'] }) {
+  const { user } = useStore();
+  const location = useLocation();
+  const from = (location.state as { from?: ReturnType<typeof useLocation> } | null)?.from;
+
+  if (user) {
+    return <Navigate to={from ? `${from.pathname}${from.search}` : '/'} replace />;
+  }
+
+  return (
+    <div className="max-w-md mx-auto">
+      <h1 className="text-3xl font-bold text-gray-900 mb-8 text-center">
+        Bienvenue sur Pole Booking
+      </h1>
+      {from && from.pathname !== '/' && (
+        <p className="mb-4 text-center text-sm text-gray-600">Connectez-vous pour accéder à cette page.</p>
+      )}
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <AuthForm onSubmit={onSubmit} />
+      </div>
+    </div>
+  );
+}
+
+function SchoolPage() {
+  const navigate = useNavigate();
+  return <SchoolDetails onClose={() => navigate('/')} />;
+}
 
 export default function App() {
   const { user, school, signIn, signUp, signOut, isLoading, initializeAuthListener } = useStore();
-  const [showProfile, setShowProfile] = useState(false);
-  const [showSchoolDetails, setShowSchoolDetails] = useState(false);
 
   useEffect(() => {
     initializeAuthListener();
@@ -57,25 +90,26 @@ export default function App() {
                   <Calendar className="h-6 w-6 mr-2" />
                   Pole Booking
                 </Link>
-                {school && (
-                  <button
-                    onClick={() => setShowSchoolDetails(true)}
+                {user && school && (
+                  <Link
+                    to="/school"
                     className="ml-4 px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm hover:bg-purple-200 transition-colors"
                   >
                     {school.name}
-                  </button>
+                  </Link>
                 )}
               </div>
               <div className="flex items-center">
                 {user && (
                   <div className="flex items-center space-x-4">
-                    <button
-                      onClick={() => setShowProfile(!showProfile)}
+                    <NotificationsMenu />
+                    <Link
+                      to="/profile"
                       className="flex items-center text-gray-700 hover:text-purple-600"
                     >
                       <UserIcon className="h-5 w-5 mr-2" />
                       <span>{user.name}</span>
-                    </button>
+                    </Link>
                     <button
                       onClick={() => signOut()}
                       className="text-gray-600 hover:text-gray-800"
@@ -91,51 +125,75 @@ export default function App() {
 
         <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
           <div className="px-4 py-6 sm:px-0">
-            {showProfile && user ? (
-              <div className="max-w-2xl mx-auto">
-                <div className="flex justify-between items-center mb-6">
-                  <h2 className="text-2xl font-bold text-gray-900">Mon compte</h2>
-                  <button
-                    onClick={() => setShowProfile(false)}
-                    className="text-gray-600 hover:text-gray-800"
-                  >
-                    Retour
-                  </button>
-                </div>
-                <UserProfile />
-              </div>
-            ) : (
-              <Routes>
-                <Route
-                  path="/"
-                  element={
-                    user ? (
-                      user.role === 'teacher' ? (
-                        <TeacherDashboard />
-                      ) : (
-                        <StudentDashboard />
-                      )
-                    ) : (
-                      <div className="max-w-md mx-auto">
-                        <h1 className="text-3xl font-bold text-gray-900 mb-8 text-center">
-                          Bienvenue sur Pole Booking
-                        </h1>
-                        <div className="bg-white p-6 rounded-lg shadow-md">
-                          <AuthForm onSubmit={handleAuth} />
-                        </div>
+            <Routes>
+              <Route path="/login" element={<LoginPage onSubmit={handleAuth} />} />
+              <Route
+                path="/"
+                element={
+                  <RequireAuth>
+                    {user?.role === 'teacher' ? <TeacherDashboard /> : <StudentDashboard />}
+                  </RequireAuth>
+                }
+              />
+              <Route
+                path="/classes/:id"
+                element={
+                  <RequireAuth>
+                    <ClassPage />
+                  </RequireAuth>
+                }
+              />
+              <Route
+                path="/series/:id"
+                element={
+                  <RequireAuth>
+                    <SeriesPage />
+                  </RequireAuth>
+                }
+              />
+              <Route
+                path="/profile"
+                element={
+                  <RequireAuth>
+                    <div className="max-w-2xl mx-auto">
+                      <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-900">Mon compte</h2>
+                        <Link to="/" className="text-gray-600 hover:text-gray-800">
+                          Retour
+                        </Link>
+                      </div>
+                      <UserProfile />
+                    </div>
+                  </RequireAuth>
+                }
+              />
+              <Route
+                path="/school"
+                element={
+                  <RequireAuth requireSchool>
+                    <SchoolPage />
+                  </RequireAuth>
+                }
+              />
+              <Route
+                path="/teacher/students"
+                element={
+                  <RequireAuth role="teacher" requireSchool>
+                    <div>
+                      <div className="mb-6">
+                        <Link to="/" className="text-sm text-purple-600 hover:text-purple-700">
+                          ← Retour aux cours
+                        </Link>
                       </div>
-                    )
-                  }
-                />
-                <Route path="*" element={<Navigate to="/" replace />} />
-              </Routes>
-            )}
+                      <StudentManagement />
+                    </div>
+                  </RequireAuth>
+                }
+              />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
           </div>
         </main>
-
-        {showSchoolDetails && school && (
-          <SchoolDetails onClose={() => setShowSchoolDetails(false)} />
-        )}
       </div>
     </Router>
   );
@@ -0,0 +1,70 @@
+import React from 'react';
+import { X, Loader2 } from 'lucide-react';
+
+interface CancelClassDialogProps {
+  enrolledCount: number;
+  onConfirm: (reason: string) => void;
+  onClose: () => void;
+  isLoading: boolean;
+}
+
+export function CancelClassDialog({ enrolledCount, onConfirm, onClose, isLoading }: CancelClassDialogProps) {
+  const [reason, setReason] = React.useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) {
+      onConfirm(reason.trim());
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-white rounded-lg p-6 z-10">
+      <div className="flex justify-between items-start mb-4">
+        <h4 className="text-lg font-semibold text-red-600">Annuler le cours</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+          disabled={isLoading}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-700">
+          {enrolledCount > 0
+            ? `Les ${enrolledCount} élève${enrolledCount > 1 ? 's' : ''} inscrit${enrolledCount > 1 ? 's' : ''} seront prévenus et les crédits utilisés remboursés.`
+            : 'Aucun élève n\'est inscrit à ce cours.'}
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700">
+          Motif
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Professeur malade"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
+            autoFocus
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={isLoading || !reason.trim()}
+          className="w-full px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-red-600 hover:bg-red-700 text-white"
+        >
+          {isLoading ? (
+            <span className="flex items-center justify-center">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Chargement...
+            </span>
+          ) : (
+            'Annuler le cours'
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
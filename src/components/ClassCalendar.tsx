@@ -0,0 +1,410 @@
+import React from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isPast,
+  isToday,
+  parseISO,
+  setMinutes,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { Class, ClassLevel } from '../types';
+import { useStore } from '../store/useStore';
+import { ClassCard } from './ClassCard';
+import { RescheduleDialog } from './RescheduleDialog';
+import { MIN_CLASS_DURATION, MAX_CLASS_DURATION } from '../utils/scheduleUtils';
+
+type CalendarMode = 'week' | 'month';
+
+interface ClassCalendarProps {
+  classes: Class[];
+  editable?: boolean;
+}
+
+const HOUR_HEIGHT = 48;
+const DEFAULT_FIRST_HOUR = 8;
+const DEFAULT_LAST_HOUR = 22;
+const SNAP_MINUTES = 15;
+
+const snapMinutes = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+const levelColors: Record<ClassLevel, string> = {
+  beginner: 'bg-green-100 border-green-400 text-green-900',
+  intermediate: 'bg-blue-100 border-blue-400 text-blue-900',
+  advanced: 'bg-purple-100 border-purple-400 text-purple-900',
+};
+
+const levelLabels: Record<ClassLevel, string> = {
+  beginner: 'Débutant',
+  intermediate: 'Intermédiaire',
+  advanced: 'Avancé',
+};
+
+interface PositionedClass {
+  classData: Class;
+  lane: number;
+  lanes: number;
+}
+
+// Les cours qui se chevauchent dans une journée se partagent la largeur de la colonne
+function layoutDay(dayClasses: Class[]): PositionedClass[] {
+  const sorted = [...dayClasses].sort((a, b) => a.datetime.localeCompare(b.datetime));
+  const positioned: PositionedClass[] = [];
+  let cluster: PositionedClass[] = [];
+  let laneEnds: Date[] = [];
+  let clusterEnd: Date | null = null;
+
+  const closeCluster = () => {
+    cluster.forEach((item) => { item.lanes = laneEnds.length; });
+    positioned.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((classData) => {
+    const start = parseISO(classData.datetime);
+    const end = new Date(start.getTime() + classData.duration * 60000);
+
+    if (clusterEnd && start >= clusterEnd) {
+      closeCluster();
+      clusterEnd = null;
+    }
+
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+
+    cluster.push({ classData, lane, lanes: 1 });
+    clusterEnd = clusterEnd && clusterEnd > end ? clusterEnd : end;
+  });
+  closeCluster();
+
+  return positioned;
+}
+
+export function ClassCalendar({ classes, editable = false }: ClassCalendarProps) {
+  const { user } = useStore();
+  const [mode, setMode] = React.useState<CalendarMode>('week');
+  const [referenceDate, setReferenceDate] = React.useState(() => new Date());
+  const [selectedClassId, setSelectedClassId] = React.useState<string | null>(null);
+  const [pendingMove, setPendingMove] = React.useState<{ classData: Class; datetime: Date; duration: number } | null>(null);
+  const [resizePreview, setResizePreview] = React.useState<{ classId: string; duration: number } | null>(null);
+  const draggedRef = React.useRef<{ classId: string; grabOffset: number } | null>(null);
+  const suppressClickRef = React.useRef(false);
+
+  const weekStart = startOfWeek(referenceDate, { weekStartsOn: 1 });
+  const days = mode === 'week'
+    ? Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+    : eachDayOfInterval({
+        start: startOfWeek(startOfMonth(referenceDate), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(referenceDate), { weekStartsOn: 1 }),
+      });
+
+  const classesOn = (day: Date) => classes.filter((classData) => isSameDay(parseISO(classData.datetime), day));
+
+  // La grille horaire s'élargit pour contenir les cours de la semaine affichée
+  const weekClasses = mode === 'week' ? days.flatMap(classesOn) : [];
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...weekClasses.map((classData) => parseISO(classData.datetime).getHours()));
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...weekClasses.map((classData) => {
+    const end = new Date(parseISO(classData.datetime).getTime() + classData.duration * 60000);
+    return Math.min(24, end.getHours() + (end.getMinutes() > 0 ? 1 : 0));
+  }));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+
+  const selectedClass = classes.find((classData) => classData.id === selectedClassId);
+
+  const navigate = (direction: number) => {
+    setReferenceDate(mode === 'week' ? addWeeks(referenceDate, direction) : addMonths(referenceDate, direction));
+  };
+
+  // Les cours passés ou annulés restent tels quels : leur historique ne se déplace pas
+  const canReschedule = (classData: Class) =>
+    editable && classData.status !== 'cancelled' && !isPast(parseISO(classData.datetime));
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>, classData: Class) => {
+    draggedRef.current = { classId: classData.id, grabOffset: e.clientY - e.currentTarget.getBoundingClientRect().top };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', classData.id);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    const dragged = draggedRef.current;
+    draggedRef.current = null;
+    const classData = dragged && classes.find((candidate) => candidate.id === dragged.classId);
+    if (!dragged || !classData) return;
+
+    // Le haut du cours se cale sur le quart d'heure le plus proche, là où il a été lâché
+    const offsetY = e.clientY - e.currentTarget.getBoundingClientRect().top - dragged.grabOffset;
+    const minutes = snapMinutes(firstHour * 60 + (offsetY / HOUR_HEIGHT) * 60);
+    const datetime = setMinutes(startOfDay(day), Math.min(Math.max(minutes, 0), 24 * 60 - classData.duration));
+
+    if (datetime.getTime() === parseISO(classData.datetime).getTime()) return;
+    if (isPast(datetime)) {
+      alert('Un cours ne peut pas être déplacé dans le passé');
+      return;
+    }
+    setPendingMove({ classData, datetime, duration: classData.duration });
+  };
+
+  // Tirer le bord inférieur d'un cours change sa durée, par pas d'un quart d'heure
+  const handleResizeStart = (e: React.MouseEvent, classData: Class) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startY = e.clientY;
+    let duration = classData.duration;
+
+    const handleMove = (event: MouseEvent) => {
+      const delta = ((event.clientY - startY) / HOUR_HEIGHT) * 60;
+      duration = Math.min(MAX_CLASS_DURATION, Math.max(MIN_CLASS_DURATION, snapMinutes(classData.duration + delta)));
+      setResizePreview({ classId: classData.id, duration });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setResizePreview(null);
+      // Le relâchement ne doit pas ouvrir la fiche du cours
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+
+      if (duration !== classData.duration) {
+        setPendingMove({ classData, datetime: parseISO(classData.datetime), duration });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const getStateLabel = (classData: Class) => {
+    if (classData.status === 'cancelled') return 'Annulé';
+    if (user && classData.enrolledStudents.includes(user.id)) return 'Inscrit(e)';
+    if (classData.enrolledStudents.length >= classData.maxStudents) return 'Complet';
+    return `${classData.maxStudents - classData.enrolledStudents.length} pl.`;
+  };
+
+  const getBlockClasses = (classData: Class) => {
+    const isEnrolled = !!user && classData.enrolledStudents.includes(user.id);
+    return `${levelColors[classData.level]} ${isEnrolled ? 'ring-2 ring-purple-600' : ''} ${
+      classData.status === 'cancelled' ? 'opacity-50 line-through' : ''
+    }`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
+            title="Précédent"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setReferenceDate(new Date())}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Aujourd'hui
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
+            title="Suivant"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-900 capitalize">
+            {mode === 'week'
+              ? `Semaine du ${format(weekStart, 'd MMMM yyyy', { locale: fr })}`
+              : format(referenceDate, 'MMMM yyyy', { locale: fr })}
+          </h3>
+        </div>
+
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['week', 'month'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 ${mode === option ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option === 'week' ? 'Semaine' : 'Mois'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'week' ? (
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[720px]" style={{ gridTemplateColumns: '3rem repeat(7, minmax(0, 1fr))' }}>
+            <div />
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={`pb-2 text-center text-sm font-medium capitalize ${isToday(day) ? 'text-purple-600' : 'text-gray-700'}`}
+              >
+                {format(day, 'EEE d', { locale: fr })}
+              </div>
+            ))}
+
+            <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+              {hours.map((hour, index) => (
+                <div
+                  key={hour}
+                  className="absolute right-1 -translate-y-2 text-xs text-gray-400"
+                  style={{ top: index * HOUR_HEIGHT }}
+                >
+                  {hour}h
+                </div>
+              ))}
+            </div>
+
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className="relative border-l border-gray-200"
+                style={{ height: hours.length * HOUR_HEIGHT }}
+                onDragOver={editable ? (e) => e.preventDefault() : undefined}
+                onDrop={editable ? (e) => handleDrop(e, day) : undefined}
+              >
+                {hours.map((hour, index) => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-gray-100"
+                    style={{ top: index * HOUR_HEIGHT }}
+                  />
+                ))}
+
+                {layoutDay(classesOn(day)).map(({ classData, lane, lanes }) => {
+                  const start = parseISO(classData.datetime);
+                  const minutesFromTop = differenceInMinutes(start, startOfDay(day)) - firstHour * 60;
+                  const duration = resizePreview?.classId === classData.id ? resizePreview.duration : classData.duration;
+                  const isMovable = canReschedule(classData);
+
+                  return (
+                    <button
+                      key={classData.id}
+                      onClick={() => !suppressClickRef.current && setSelectedClassId(classData.id)}
+                      draggable={isMovable}
+                      onDragStart={isMovable ? (e) => handleDragStart(e, classData) : undefined}
+                      className={`absolute overflow-hidden rounded-md border-l-4 px-1.5 py-1 text-left text-xs shadow-sm hover:shadow-md ${
+                        isMovable ? 'cursor-move' : ''
+                      } ${getBlockClasses(classData)}`}
+                      style={{
+                        top: (minutesFromTop / 60) * HOUR_HEIGHT,
+                        height: Math.max((duration / 60) * HOUR_HEIGHT, 20),
+                        left: `${(lane / lanes) * 100}%`,
+                        width: `${100 / lanes}%`,
+                      }}
+                      title={`${classData.title} · ${format(start, "HH'h'mm")} · ${duration} min`}
+                    >
+                      <p className="font-semibold truncate">{classData.title}</p>
+                      <p className="truncate">{format(start, "HH'h'mm")} · {getStateLabel(classData)}</p>
+                      {isMovable && (
+                        <div
+                          onMouseDown={(e) => handleResizeStart(e, classData)}
+                          className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+                          title="Modifier la durée"
+                        />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-md overflow-hidden">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="bg-gray-50 py-1 text-center text-xs font-medium text-gray-600 capitalize">
+              {format(day, 'EEE', { locale: fr })}
+            </div>
+          ))}
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={`bg-white min-h-[6rem] p-1 ${isSameMonth(day, referenceDate) ? '' : 'bg-gray-50 text-gray-400'}`}
+            >
+              <p className={`text-xs font-medium mb-1 ${isToday(day) ? 'text-purple-600' : ''}`}>{format(day, 'd')}</p>
+              <div className="space-y-1">
+                {classesOn(day)
+                  .sort((a, b) => a.datetime.localeCompare(b.datetime))
+                  .map((classData) => (
+                    <button
+                      key={classData.id}
+                      onClick={() => setSelectedClassId(classData.id)}
+                      className={`block w-full truncate rounded border-l-4 px-1 text-left text-xs ${getBlockClasses(classData)}`}
+                      title={`${classData.title} · ${getStateLabel(classData)}`}
+                    >
+                      {format(parseISO(classData.datetime), "HH'h'mm")} {classData.title}
+                    </button>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600">
+        {(Object.keys(levelLabels) as ClassLevel[]).map((level) => (
+          <span key={level} className="flex items-center">
+            <span className={`inline-block w-3 h-3 mr-1 rounded-sm border-l-4 ${levelColors[level]}`} />
+            {levelLabels[level]}
+          </span>
+        ))}
+        {user?.role === 'student' && (
+          <span className="flex items-center">
+            <span className="inline-block w-3 h-3 mr-1 rounded-sm ring-2 ring-purple-600" />
+            Mes cours
+          </span>
+        )}
+        {editable && (
+          <span className="text-gray-500">
+            Glissez un cours pour le déplacer, tirez son bord inférieur pour changer sa durée.
+          </span>
+        )}
+      </div>
+
+      {selectedClass && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-40">
+          <div className="relative w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <button
+              onClick={() => setSelectedClassId(null)}
+              className="absolute -top-2 -right-2 z-20 p-1 bg-white text-gray-500 hover:text-gray-700 rounded-full shadow"
+              title="Fermer"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <ClassCard classData={selectedClass} />
+          </div>
+        </div>
+      )}
+
+      {pendingMove && (
+        <RescheduleDialog
+          classData={pendingMove.classData}
+          datetime={pendingMove.datetime}
+          duration={pendingMove.duration}
+          onClose={() => setPendingMove(null)}
+        />
+      )}
+    </div>
+  );
+}
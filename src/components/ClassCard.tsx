@@ -1,21 +1,47 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { format, parseISO, isPast } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import { Users, Clock, CalendarCheck, Repeat, Edit2, Trash2, Loader2 } from 'lucide-react';
-import { Class, ClassFormData, User } from '../types';
+import { Users, Clock, CalendarCheck, Repeat, Edit2, Trash2, Loader2, Ban, UserCog, DoorOpen, Share2 } from 'lucide-react';
+import { Class, ClassFormData, ScheduleConflict, SeriesEditScope, User } from '../types';
 import { useStore } from '../store/useStore';
 import { ClassForm } from './ClassForm';
 import { ConfirmDialog } from './ConfirmDialog';
+import { CancelClassDialog } from './CancelClassDialog';
+import { SubstituteTeacherDialog } from './SubstituteTeacherDialog';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+import { ScheduleConflictError } from '../utils/scheduleUtils';
 import { EnrolledStudentsList } from './EnrolledStudentsList';
+import { PoleSpotPicker } from './PoleSpotPicker';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  isLateCancellation,
+  wasPaidWithCredits,
+  getRoomPoles,
+  getTakenPoles
+} from '../utils/bookingUtils';
+import { printRoster } from '../utils/printUtils';
+import { shareLink } from '../utils/shareUtils';
 
 interface ClassCardProps {
   classData: Class;
 }
 
 export function ClassCard({ classData }: ClassCardProps) {
-  const { user, enrollInClass, unenrollFromClass, updateClass, deleteClass } = useStore();
+  const { user, school, enrollInClass, unenrollFromClass, joinWaitlist, leaveWaitlist, updateClass, deleteClass, cancelClass, markAttendance, clearRegularization, assignPole } = useStore();
   const [isEditing, setIsEditing] = React.useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
+  const [showCancelDialog, setShowCancelDialog] = React.useState(false);
+  const [isCancelling, setIsCancelling] = React.useState(false);
+  const [showSubstituteDialog, setShowSubstituteDialog] = React.useState(false);
+  const [showSpotPicker, setShowSpotPicker] = React.useState(false);
+  const [selectedPole, setSelectedPole] = React.useState<number | null>(null);
+  const [substituteName, setSubstituteName] = React.useState<string | null>(null);
+  const [pendingUpdate, setPendingUpdate] = React.useState<{
+    formData: ClassFormData;
+    scope: SeriesEditScope;
+    conflicts: ScheduleConflict[];
+  } | null>(null);
   const [showEnrollConfirm, setShowEnrollConfirm] = React.useState(false);
   const [showUnenrollConfirm, setShowUnenrollConfirm] = React.useState(false);
   const [showStudentsList, setShowStudentsList] = React.useState(false);
@@ -28,14 +54,49 @@ export function ClassCard({ classData }: ClassCardProps) {
   const [isEnrollingAll, setIsEnrollingAll] = React.useState(false);
   const [isUnenrollingOne, setIsUnenrollingOne] = React.useState(false);
   const [isUnenrollingAll, setIsUnenrollingAll] = React.useState(false);
+  const [isUpdatingWaitlist, setIsUpdatingWaitlist] = React.useState(false);
   
   const isEnrolled = user && classData.enrolledStudents.includes(user.id);
   const isFull = classData.enrolledStudents.length >= classData.maxStudents;
   const availableSpots = classData.maxStudents - classData.enrolledStudents.length;
+  const waitlist = classData.waitlist || [];
+  const waitlistPosition = user ? waitlist.findIndex((entry) => entry.userId === user.id) + 1 : 0;
   const isTeacher = user?.role === 'teacher';
   const isPastClass = isPast(parseISO(classData.datetime));
+  const isCancelled = classData.status === 'cancelled';
+  const room = classData.roomId ? school?.rooms?.find((candidate) => candidate.id === classData.roomId) : undefined;
+  const poles = room ? getRoomPoles(room) : [];
+  const myPole = user ? classData.poleAssignments?.[user.id] : undefined;
 
-  const handleEnrollment = async (enrollAll: boolean = false) => {
+  const getLateCancellationWarning = (student: User) => {
+    const policy = school?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+    if (!wasPaidWithCredits(classData, student.id) || !isLateCancellation(policy, classData.datetime)) return '';
+
+    const penalty = policy.lateCancellationPenalty || 0;
+    const warnings = [
+      !policy.refundAfterCutoff && 'le crédit ne sera pas remboursé',
+      penalty > 0 && `une pénalité de ${penalty} crédit${penalty > 1 ? 's' : ''} sera appliquée`,
+    ].filter(Boolean);
+
+    return warnings.length > 0
+      ? ` Annulation tardive (moins de ${policy.cutoffHours} h avant le cours) : ${warnings.join(' et ')}.`
+      : '';
+  };
+
+  React.useEffect(() => {
+    if (!classData.substituteTeacherId) {
+      setSubstituteName(null);
+      return;
+    }
+
+    useStore.getState().fetchUserById(classData.substituteTeacherId)
+      .then((teacher) => setSubstituteName(teacher?.name || null))
+      .catch((error) => console.error('Error fetching substitute teacher:', error));
+  }, [classData.substituteTeacherId]);
+
+  const lateCancellationWarning = user && isEnrolled ? getLateCancellationWarning(user) : '';
+
+  const handleEnrollment = async (enrollAll: boolean = false, pole: number | null = selectedPole) => {
     if (!user) return;
     
     try {
@@ -45,14 +106,50 @@ export function ClassCard({ classData }: ClassCardProps) {
         setIsEnrollingOne(true);
       }
 
-      await enrollInClass(classData.id, user.id, enrollAll);
+      const report = await enrollInClass(classData.id, user.id, enrollAll, pole);
       setShowEnrollConfirm(false);
+
+      if (report.full.length > 0 || report.suspended.length > 0) {
+        const formatDates = (datetimes: string[]) => datetimes
+          .map((datetime) => format(parseISO(datetime), "EEEE d MMMM 'à' HH'h'mm", { locale: fr }))
+          .join('\n');
+        alert(
+          `Inscription confirmée pour ${report.enrolled.length} cours.` +
+          (report.full.length > 0 ? `\n\nLes cours suivants sont complets :\n${formatDates(report.full)}` : '') +
+          (report.suspended.length > 0
+            ? `\n\nVotre abonnement est suspendu pour les cours suivants :\n${formatDates(report.suspended)}`
+            : '')
+        );
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de l'inscription");
     } finally {
       setIsEnrollingAll(false);
       setIsEnrollingOne(false);
     }
   };
 
+  const handlePoleSelected = async (pole: number | null) => {
+    if (!user) return;
+    setShowSpotPicker(false);
+
+    if (isEnrolled) {
+      try {
+        await assignPole(classData.id, user.id, pole);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : "Une erreur s'est produite lors du choix de la barre");
+      }
+      return;
+    }
+
+    setSelectedPole(pole);
+    if (classData.seriesId) {
+      setShowEnrollConfirm(true);
+    } else {
+      handleEnrollment(false, pole);
+    }
+  };
+
   const handleUnenrollment = async (unenrollAll: boolean = false) => {
     if (!user) return;
     
@@ -65,12 +162,31 @@ export function ClassCard({ classData }: ClassCardProps) {
 
       await unenrollFromClass(classData.id, user.id, unenrollAll);
       setShowUnenrollConfirm(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de la désinscription");
     } finally {
       setIsUnenrollingAll(false);
       setIsUnenrollingOne(false);
     }
   };
 
+  const handleWaitlist = async () => {
+    if (!user) return;
+
+    try {
+      setIsUpdatingWaitlist(true);
+      if (waitlistPosition > 0) {
+        await leaveWaitlist(classData.id, user.id);
+      } else {
+        await joinWaitlist(classData.id, user.id);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite");
+    } finally {
+      setIsUpdatingWaitlist(false);
+    }
+  };
+
   const handleDelete = async (deleteRecurring: boolean) => {
     try {
       if (deleteRecurring) {
@@ -82,23 +198,42 @@ export function ClassCard({ classData }: ClassCardProps) {
       setShowDeleteConfirm(false);
     } catch (error) {
       console.error('Error deleting class:', error);
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de la suppression du cours");
     } finally {
       setIsDeletingAll(false);
       setIsDeletingOne(false);
     }
   };
 
-  const handleUpdate = async (formData: ClassFormData, updateRecurring: boolean) => {
+  const handleCancel = async (reason: string) => {
+    try {
+      setIsCancelling(true);
+      await cancelClass(classData.id, reason);
+      setShowCancelDialog(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de l'annulation du cours");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleUpdate = async (formData: ClassFormData, scope: SeriesEditScope, allowConflicts = false) => {
     try {
       setIsLoading(true);
+      // Le professeur du cours est conservé : un remplacement passe par substituteTeacherId
       const updatedClass: Partial<Class> = {
         ...formData,
-        teacherId: user?.id,
       };
-      await updateClass(classData.id, updatedClass, updateRecurring);
+      await updateClass(classData.id, updatedClass, scope, allowConflicts);
       setIsEditing(false);
+      setPendingUpdate(null);
     } catch (error) {
+      if (error instanceof ScheduleConflictError) {
+        setPendingUpdate({ formData, scope, conflicts: error.conflicts });
+        return;
+      }
       console.error('Error updating class:', error);
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de la modification du cours");
     } finally {
       setIsLoading(false);
     }
@@ -146,33 +281,67 @@ export function ClassCard({ classData }: ClassCardProps) {
         </div>
         <ClassForm
           initialData={classData}
-          onSubmit={handleUpdate}
+          onSubmit={(formData, scope) => handleUpdate(formData, scope)}
           isEditing
         />
+        {pendingUpdate && (
+          <ScheduleConflictDialog
+            conflicts={pendingUpdate.conflicts}
+            onConfirm={() => handleUpdate(pendingUpdate.formData, pendingUpdate.scope, true)}
+            onClose={() => setPendingUpdate(null)}
+            isLoading={isLoading}
+          />
+        )}
       </div>
     );
   }
 
   return (
-    <div className={`bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow relative ${isFull && !isEnrolled ? 'opacity-75' : ''}`}>
+    <div className={`bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow relative ${(isFull && !isEnrolled) || isCancelled ? 'opacity-75' : ''}`}>
+      {showSpotPicker && user && (
+        <PoleSpotPicker
+          poles={poles}
+          takenPoles={getTakenPoles(classData)}
+          currentUserId={user.id}
+          onSelect={handlePoleSelected}
+          onClose={() => setShowSpotPicker(false)}
+        />
+      )}
+
+      {showSubstituteDialog && (
+        <SubstituteTeacherDialog
+          classData={classData}
+          onClose={() => setShowSubstituteDialog(false)}
+        />
+      )}
+
+      {showCancelDialog && (
+        <CancelClassDialog
+          enrolledCount={classData.enrolledStudents.length}
+          onConfirm={handleCancel}
+          onClose={() => setShowCancelDialog(false)}
+          isLoading={isCancelling}
+        />
+      )}
+
       {showDeleteConfirm && (
         <ConfirmDialog
           title="Confirmation de suppression"
-          message={classData.baseId
+          message={classData.seriesId
             ? "Voulez-vous supprimer uniquement ce cours ou tous les prochains cours récurrents ?"
             : "Êtes-vous sûr de vouloir supprimer ce cours ?"}
           onConfirmOne={() => handleDelete(false)}
           onConfirmAll={() => handleDelete(true)}
           onClose={() => setShowDeleteConfirm(false)}
           confirmOneText="Ce cours uniquement"
-          confirmAllText={classData.baseId ? "Tous les prochains cours" : "Supprimer"}
+          confirmAllText={classData.seriesId ? "Tous les prochains cours" : "Supprimer"}
           isLoadingOne={isDeletingOne}
           isLoadingAll={isDeletingAll}
           variant="danger"
         />
       )}
 
-      {showEnrollConfirm && !isEnrolled && classData.baseId && (
+      {showEnrollConfirm && !isEnrolled && classData.seriesId && (
         <ConfirmDialog
           title="Inscription"
           message="Voulez-vous vous inscrire uniquement à ce cours ou à tous les prochains cours récurrents ?"
@@ -187,14 +356,16 @@ export function ClassCard({ classData }: ClassCardProps) {
         />
       )}
 
-      {showUnenrollConfirm && isEnrolled && classData.baseId && (
+      {showUnenrollConfirm && isEnrolled && (
         <ConfirmDialog
           title="Désinscription"
-          message="Voulez-vous vous désinscrire uniquement de ce cours ou de tous les prochains cours récurrents ?"
+          message={(classData.seriesId
+            ? "Voulez-vous vous désinscrire uniquement de ce cours ou de tous les prochains cours récurrents ?"
+            : "Êtes-vous sûr de vouloir vous désinscrire de ce cours ?") + lateCancellationWarning}
           onConfirmOne={() => handleUnenrollment(false)}
-          onConfirmAll={() => handleUnenrollment(true)}
+          onConfirmAll={classData.seriesId ? () => handleUnenrollment(true) : undefined}
           onClose={() => setShowUnenrollConfirm(false)}
-          confirmOneText="Ce cours uniquement"
+          confirmOneText={classData.seriesId ? "Ce cours uniquement" : "Se désinscrire"}
           confirmAllText="Tous les prochains cours"
           isLoadingOne={isUnenrollingOne}
           isLoadingAll={isUnenrollingAll}
@@ -207,15 +378,31 @@ export function ClassCard({ classData }: ClassCardProps) {
           students={enrolledStudents}
           onClose={() => setShowStudentsList(false)}
           isLoading={isLoadingStudents}
+          attendance={classData.attendance}
+          onMarkAttendance={isPastClass && !isCancelled
+            ? (studentId, status) => markAttendance(classData.id, studentId, status)
+            : undefined}
+          toRegularize={classData.toRegularize}
+          onClearRegularization={(studentId) => clearRegularization(classData.id, studentId)}
+          poles={poles}
+          poleAssignments={classData.poleAssignments}
+          onAssignPole={isCancelled ? undefined : (studentId, pole) => assignPole(classData.id, studentId, pole)}
+          onPrint={() => printRoster(classData, enrolledStudents, room)}
         />
       )}
 
       <div className="flex justify-between items-start mb-4">
         <div>
           <div className="flex items-center gap-2">
-            <h3 className="text-xl font-semibold text-gray-800">{classData.title}</h3>
-            {classData.baseId && (
-              <Repeat className="w-4 h-4 text-purple-500" title="Cours récurrent" />
+            <h3 className={`text-xl font-semibold text-gray-800 ${isCancelled ? 'line-through' : ''}`}>
+              <Link to={`/classes/${classData.id}`} className="hover:text-purple-600">
+                {classData.title}
+              </Link>
+            </h3>
+            {classData.seriesId && (
+              <Link to={`/series/${classData.seriesId}`} title="Voir tous les cours de la série">
+                <Repeat className="w-4 h-4 text-purple-500 hover:text-purple-700" />
+              </Link>
             )}
           </div>
           <p className="text-sm text-gray-500">
@@ -224,24 +411,66 @@ export function ClassCard({ classData }: ClassCardProps) {
         </div>
         {isTeacher && (
           <div className="flex gap-2">
-            <button
-              onClick={() => setIsEditing(true)}
-              className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
-              title="Modifier"
-            >
-              <Edit2 className="w-4 h-4" />
-            </button>
-            <button
-              onClick={() => setShowDeleteConfirm(true)}
-              className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-50"
-              title="Supprimer"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            {!isCancelled && !isPastClass && (
+              <button
+                onClick={() => shareLink(classData.title, `/classes/${classData.id}`).catch((error) => console.error('Error sharing class:', error))}
+                className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
+                title="Partager le lien du cours"
+              >
+                <Share2 className="w-4 h-4" />
+              </button>
+            )}
+            {!isCancelled && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
+                title="Modifier"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+            )}
+            {!isCancelled && !isPastClass && (
+              <button
+                onClick={() => setShowSubstituteDialog(true)}
+                className="p-2 text-gray-500 hover:text-purple-600 rounded-full hover:bg-purple-50"
+                title="Remplacement"
+              >
+                <UserCog className="w-4 h-4" />
+              </button>
+            )}
+            {!isCancelled && !isPastClass && (
+              <button
+                onClick={() => setShowCancelDialog(true)}
+                className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-50"
+                title="Annuler le cours"
+              >
+                <Ban className="w-4 h-4" />
+              </button>
+            )}
+            {/* Un cours avec des inscrits s'annule : les élèves sont remboursés et prévenus */}
+            {(isCancelled || classData.enrolledStudents.length === 0) && (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-50"
+                title="Supprimer"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
           </div>
         )}
       </div>
 
+      {isCancelled && (
+        <div className="mb-4 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+          <p className="font-medium">Cours annulé</p>
+          {classData.cancellation?.reason && <p>{classData.cancellation.reason}</p>}
+          {isEnrolled && !isTeacher && (
+            <p className="mt-1 text-red-600">Vous avez été prévenu(e) ; un cours payé en crédits vous a été remboursé.</p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2 mb-4">
         <div className="flex items-center text-gray-600">
           <CalendarCheck className="w-4 h-4 mr-2 flex-shrink-0" />
@@ -255,6 +484,29 @@ export function ClassCard({ classData }: ClassCardProps) {
           <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
           <span className="text-sm">{classData.duration} minutes</span>
         </div>
+        {room && (
+          <div className="flex items-center text-gray-600">
+            <DoorOpen className="w-4 h-4 mr-2 flex-shrink-0" />
+            <span className="text-sm">
+              {room.name}
+              {isEnrolled && !isTeacher && myPole !== undefined && ` · Votre barre : n°${myPole}`}
+            </span>
+            {isEnrolled && !isTeacher && !isPastClass && !isCancelled && (
+              <button
+                onClick={() => setShowSpotPicker(true)}
+                className="ml-2 text-sm text-purple-600 hover:text-purple-700"
+              >
+                {myPole !== undefined ? 'Changer' : 'Choisir ma barre'}
+              </button>
+            )}
+          </div>
+        )}
+        {classData.substituteTeacherId && (
+          <div className="flex items-center text-amber-700">
+            <UserCog className="w-4 h-4 mr-2 flex-shrink-0" />
+            <span className="text-sm">Remplacement : cours assuré par {substituteName || 'un autre professeur'}</span>
+          </div>
+        )}
         <div className="flex items-center text-gray-600">
           <Users className="w-4 h-4 mr-2 flex-shrink-0" />
           {isTeacher ? (
@@ -266,13 +518,21 @@ export function ClassCard({ classData }: ClassCardProps) {
               {isLoadingStudents ? (
                 <Loader2 className="w-4 h-4 animate-spin mr-1" />
               ) : null}
-              {availableSpots > 0 
+              {isCancelled
+                ? `${classData.enrolledStudents.length} élève${classData.enrolledStudents.length > 1 ? 's' : ''} prévenu${classData.enrolledStudents.length > 1 ? 's' : ''}`
+                : isPastClass
+                ? `${classData.enrolledStudents.length} élève${classData.enrolledStudents.length > 1 ? 's' : ''} · Faire l'appel`
+                : availableSpots > 0 
                 ? `${availableSpots} place${availableSpots > 1 ? 's' : ''} restante${availableSpots > 1 ? 's' : ''}`
                 : 'Complet'}
+              {!isPastClass && !isCancelled && waitlist.length > 0 && ` · ${waitlist.length} en attente`}
+              {!!classData.toRegularize?.length && ` · ${classData.toRegularize.length} à régulariser`}
             </button>
           ) : (
             <span className="text-sm">
-              {availableSpots > 0 
+              {isCancelled
+                ? 'Annulé'
+                : availableSpots > 0 
                 ? `${availableSpots} place${availableSpots > 1 ? 's' : ''} restante${availableSpots > 1 ? 's' : ''}`
                 : 'Complet'}
             </span>
@@ -284,17 +544,44 @@ export function ClassCard({ classData }: ClassCardProps) {
         <p className="text-sm text-gray-600 mb-4">{classData.description}</p>
       )}
 
-      {user?.role === 'student' && !isPastClass && (
+      {user?.role === 'student' && !isPastClass && !isCancelled && !isEnrolled && isFull && (
+        <div className="space-y-2">
+          {waitlistPosition > 0 && (
+            <p className="text-sm text-center text-purple-700 bg-purple-50 rounded-md py-2">
+              Vous êtes n°{waitlistPosition} sur la liste d'attente
+            </p>
+          )}
+          <button
+            onClick={handleWaitlist}
+            disabled={isUpdatingWaitlist}
+            className={`w-full flex justify-center items-center py-2 px-4 rounded-md transition-colors ${
+              waitlistPosition > 0
+                ? 'text-gray-500 hover:text-red-600 bg-gray-50 hover:bg-red-50'
+                : 'border border-purple-500 text-purple-600 hover:bg-purple-50'
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {isUpdatingWaitlist ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              waitlistPosition > 0 ? "Quitter la liste d'attente" : "Rejoindre la liste d'attente"
+            )}
+          </button>
+        </div>
+      )}
+
+      {user?.role === 'student' && !isPastClass && !isCancelled && (isEnrolled || !isFull) && (
         <button
           onClick={() => {
             if (isEnrolled) {
-              if (classData.baseId) {
+              if (classData.seriesId || lateCancellationWarning) {
                 setShowUnenrollConfirm(true);
               } else {
                 handleUnenrollment(false);
               }
             } else if (!isFull) {
-              if (classData.baseId) {
+              if (poles.length > 0) {
+                setShowSpotPicker(true);
+              } else if (classData.seriesId) {
                 setShowEnrollConfirm(true);
               } else {
                 handleEnrollment(false);
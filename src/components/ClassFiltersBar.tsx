@@ -0,0 +1,109 @@
+import { Search, X } from 'lucide-react';
+import { User } from '../types';
+import { ClassFilters, EMPTY_CLASS_FILTERS, hasActiveFilters, timeOfDayOptions } from '../utils/filterUtils';
+import { WEEKDAY_LABELS } from '../utils/dateUtils';
+
+interface ClassFiltersBarProps {
+  filters: ClassFilters;
+  teachers: User[];
+  onChange: (filters: ClassFilters) => void;
+}
+
+const levelOptions = [
+  { value: 'beginner', label: 'Débutant' },
+  { value: 'intermediate', label: 'Intermédiaire' },
+  { value: 'advanced', label: 'Avancé' },
+] as const;
+
+const weekdayOptions = [1, 2, 3, 4, 5, 6, 0];
+
+const selectClassName = 'rounded-md border-gray-300 shadow-sm text-sm focus:border-purple-500 focus:ring-purple-500';
+
+export function ClassFiltersBar({ filters, teachers, onChange }: ClassFiltersBarProps) {
+  const update = (changes: Partial<ClassFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Rechercher un cours (titre, description)"
+          className="block w-full pl-9 rounded-md border-gray-300 shadow-sm text-sm focus:border-purple-500 focus:ring-purple-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={filters.level}
+          onChange={(e) => update({ level: e.target.value as ClassFilters['level'] })}
+          className={selectClassName}
+        >
+          <option value="">Tous les niveaux</option>
+          {levelOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.weekday ?? ''}
+          onChange={(e) => update({ weekday: e.target.value === '' ? null : Number(e.target.value) })}
+          className={selectClassName}
+        >
+          <option value="">Tous les jours</option>
+          {weekdayOptions.map((weekday) => (
+            <option key={weekday} value={weekday}>
+              {WEEKDAY_LABELS[weekday].charAt(0).toUpperCase() + WEEKDAY_LABELS[weekday].slice(1)}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.timeOfDay}
+          onChange={(e) => update({ timeOfDay: e.target.value as ClassFilters['timeOfDay'] })}
+          className={selectClassName}
+        >
+          <option value="">Toute la journée</option>
+          {timeOfDayOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        {teachers.length > 1 && (
+          <select
+            value={filters.teacherId}
+            onChange={(e) => update({ teacherId: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Tous les professeurs</option>
+            {teachers.map((teacher) => (
+              <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+            ))}
+          </select>
+        )}
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filters.bookableOnly}
+            onChange={(e) => update({ bookableOnly: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          Réservables avec ma formule
+        </label>
+
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_CLASS_FILTERS)}
+            className="flex items-center text-sm text-purple-600 hover:text-purple-700"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Effacer les filtres
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,38 +2,117 @@ import React from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ClassFormData, Class } from '../types';
-import { getNextDayOfWeek } from '../utils/dateUtils';
+import { ClassFormData, Class, SeriesEditScope, RecurrenceRule, Room } from '../types';
+import {
+  getNextDayOfWeek,
+  moveToWeekdayAndTime,
+  generateOccurrences,
+  describeRecurrenceRule,
+  getClosureOn,
+  WEEKDAY_LABELS,
+  SERIES_HORIZON_WEEKS
+} from '../utils/dateUtils';
 import { TimeSelect } from './TimeSelect';
-import { format, parseISO } from 'date-fns';
+import { useStore } from '../store/useStore';
+import { MIN_CLASS_DURATION, MAX_CLASS_DURATION } from '../utils/scheduleUtils';
+import { describeRoom, getMaxStudentsLimit, getRoomCapacity } from '../utils/bookingUtils';
+import { addMonths, addWeeks, format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
 import { Loader2 } from 'lucide-react';
 
+const PREVIEW_SIZE = 8;
+
 const schema = z.object({
   title: z.string().min(3, 'Le titre doit faire au moins 3 caractères'),
   dayOfWeek: z.number().min(0).max(6),
   time: z.string().regex(/^([0-1][0-9]|2[0-3]):(00|15|30|45)$/, 'Heure invalide'),
-  duration: z.number().min(30).max(180),
-  maxStudents: z.number().min(1).max(20),
+  duration: z.number().min(MIN_CLASS_DURATION).max(MAX_CLASS_DURATION),
+  maxStudents: z.number().min(1, 'Au moins 1 élève'),
+  roomId: z.string(),
   isRecurring: z.boolean(),
   level: z.enum(['beginner', 'intermediate', 'advanced']),
   description: z.string().optional(),
-  updateRecurring: z.boolean().optional(),
+  editScope: z.enum(['occurrence', 'following', 'series']),
+  weekdays: z.array(z.string()),
+  interval: z.number().int().min(1).max(4),
+  endType: z.enum(['never', 'until', 'count']),
+  until: z.string(),
+  count: z.number().int().min(1, 'Au moins 1 cours').max(104, 'Au plus 104 cours'),
+}).superRefine((data, ctx) => {
+  if (!data.isRecurring) return;
+
+  if (data.weekdays.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['weekdays'], message: 'Choisissez au moins un jour' });
+  }
+  if (data.endType === 'until' && !data.until) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['until'], message: 'Choisissez une date de fin' });
+  }
 });
 
-type FormInputs = Omit<ClassFormData, 'datetime'> & {
+type FormInputs = Omit<ClassFormData, 'datetime' | 'recurrence' | 'roomId'> & {
+  // Chaîne vide : cours sans salle
+  roomId: string;
   dayOfWeek: number;
   time: string;
-  updateRecurring?: boolean;
+  editScope: SeriesEditScope;
+  // Valeurs des cases à cocher (jours de la semaine, 0 = dimanche)
+  weekdays: string[];
+  interval: number;
+  endType: 'never' | 'until' | 'count';
+  until: string;
+  count: number;
 };
 
+function buildRecurrence(data: Pick<FormInputs, 'weekdays' | 'interval' | 'endType' | 'until' | 'count'>): RecurrenceRule {
+  return {
+    frequency: 'weekly',
+    interval: data.interval,
+    weekdays: data.weekdays.map(Number),
+    until: data.endType === 'until' ? data.until : null,
+    count: data.endType === 'count' ? data.count : null,
+  };
+}
+
+// Premier cours de la série : le prochain des jours choisis
+function getFirstOccurrence(rule: RecurrenceRule, time: string): Date {
+  return rule.weekdays
+    .map((weekday) => getNextDayOfWeek(weekday, time))
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+}
+
+// La capacité dépend des salles de l'école : elle est vérifiée en plus du schéma de base
+function buildSchema(rooms: Room[]) {
+  return schema.superRefine((data, ctx) => {
+    const limit = getMaxStudentsLimit(rooms, data.roomId || null);
+    if (data.maxStudents > limit) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['maxStudents'],
+        message: data.roomId ? `La salle ne compte que ${limit} barres` : `Au plus ${limit} élèves sans salle`,
+      });
+    }
+  });
+}
+
+const weekdayOptions = [1, 2, 3, 4, 5, 6, 0];
+
+export const editScopeOptions: { value: SeriesEditScope; label: string }[] = [
+  { value: 'occurrence', label: 'Ce cours uniquement' },
+  { value: 'following', label: 'Ce cours et les suivants' },
+  { value: 'series', label: 'Toute la série (cours à venir)' },
+];
+
 interface ClassFormProps {
-  onSubmit: (data: ClassFormData, updateRecurring: boolean) => Promise<void>;
+  onSubmit: (data: ClassFormData, scope: SeriesEditScope) => Promise<void>;
   initialData?: Class;
   isEditing?: boolean;
 }
 
 export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFormProps) {
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const { school } = useStore();
+  const rooms = React.useMemo(() => school?.rooms || [], [school?.rooms]);
+  const resolver = React.useMemo(() => zodResolver(buildSchema(rooms)), [rooms]);
   
   const defaultValues = initialData
     ? {
@@ -42,21 +121,34 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
         time: format(parseISO(initialData.datetime), 'HH:mm'),
         duration: initialData.duration,
         maxStudents: initialData.maxStudents,
+        // Une salle supprimée depuis est retirée : le cours repasse sans salle au lieu de bloquer la modification
+        roomId: initialData.roomId && (!school || rooms.some((room) => room.id === initialData.roomId)) ? initialData.roomId : '',
         isRecurring: initialData.isRecurring,
         level: initialData.level,
         description: initialData.description || '',
-        updateRecurring: true,
+        editScope: 'following' as const,
+        weekdays: [String(parseISO(initialData.datetime).getDay())],
+        interval: 1,
+        endType: 'never' as const,
+        until: '',
+        count: 10,
       }
     : {
         title: '',
         duration: 60,
         maxStudents: 8,
+        roomId: '',
         isRecurring: false,
         level: 'beginner' as const,
         dayOfWeek: 1,
         time: '18:00',
         description: '',
-        updateRecurring: false,
+        editScope: 'occurrence' as const,
+        weekdays: ['1'],
+        interval: 1,
+        endType: 'never' as const,
+        until: format(addMonths(new Date(), 6), 'yyyy-MM-dd'),
+        count: 10,
       };
 
   const {
@@ -64,27 +156,55 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
     control,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<FormInputs>({
-    resolver: zodResolver(schema),
+    resolver,
     defaultValues,
   });
 
   const isRecurring = watch('isRecurring');
   const isEditingRecurring = isEditing && initialData?.isRecurring;
+  const isCreatingRecurring = !isEditing && isRecurring;
+  const endType = watch('endType');
+
+  // Aperçu des dates générées, avec le même moteur que l'enregistrement de la série
+  const previewRule = buildRecurrence({
+    weekdays: watch('weekdays') || [],
+    interval: watch('interval'),
+    endType,
+    until: watch('until'),
+    count: watch('count'),
+  });
+  // Une série sans fin est montrée sur l'horizon de création des cours
+  const previewDates = isCreatingRecurring && previewRule.weekdays.length > 0 && (endType === 'never' || previewRule.until || previewRule.count)
+    ? generateOccurrences(
+        getFirstOccurrence(previewRule, watch('time')),
+        previewRule,
+        endType === 'never' ? addWeeks(new Date(), SERIES_HORIZON_WEEKS) : undefined
+      )
+    : [];
 
   const handleFormSubmit = async (data: FormInputs) => {
     try {
       setIsSubmitting(true);
-      const nextDate = getNextDayOfWeek(data.dayOfWeek, data.time);
-      const { dayOfWeek, time, updateRecurring, ...formData } = data;
+      const recurrence = isCreatingRecurring ? buildRecurrence(data) : undefined;
+      // En modification, le cours reste dans sa semaine : seuls le jour et l'horaire changent
+      const nextDate = initialData
+        ? moveToWeekdayAndTime(parseISO(initialData.datetime), data.dayOfWeek, data.time)
+        : recurrence
+        ? getFirstOccurrence(recurrence, data.time)
+        : getNextDayOfWeek(data.dayOfWeek, data.time);
+      const { dayOfWeek, time, editScope, weekdays, interval, endType, until, count, roomId, ...formData } = data;
       
       await onSubmit(
         {
           ...formData,
+          roomId: roomId || null,
           datetime: nextDate.toISOString(),
+          ...(recurrence && { recurrence }),
         },
-        updateRecurring || false
+        isEditingRecurring ? editScope : 'occurrence'
       );
     } catch (error) {
       console.error('Error submitting form:', error);
@@ -110,24 +230,25 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
       </div>
 
       <div className="grid grid-cols-2 gap-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700">
-            Jour de la semaine
-            <select
-              {...register('dayOfWeek', { valueAsNumber: true })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
-              disabled={isEditing}
-            >
-              <option value={1}>Lundi</option>
-              <option value={2}>Mardi</option>
-              <option value={3}>Mercredi</option>
-              <option value={4}>Jeudi</option>
-              <option value={5}>Vendredi</option>
-              <option value={6}>Samedi</option>
-              <option value={0}>Dimanche</option>
-            </select>
-          </label>
-        </div>
+        {!isCreatingRecurring && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Jour de la semaine
+              <select
+                {...register('dayOfWeek', { valueAsNumber: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+              >
+                <option value={1}>Lundi</option>
+                <option value={2}>Mardi</option>
+                <option value={3}>Mercredi</option>
+                <option value={4}>Jeudi</option>
+                <option value={5}>Vendredi</option>
+                <option value={6}>Samedi</option>
+                <option value={0}>Dimanche</option>
+              </select>
+            </label>
+          </div>
+        )}
 
         <div>
           <label className="block text-sm font-medium text-gray-700">
@@ -140,7 +261,6 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
                   value={field.value}
                   onChange={field.onChange}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
-                  disabled={isEditing}
                 />
               )}
             />
@@ -172,9 +292,37 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
             />
           </label>
+          {errors.maxStudents && (
+            <p className="mt-1 text-sm text-red-600">{errors.maxStudents.message}</p>
+          )}
         </div>
       </div>
 
+      {rooms.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Salle
+            <select
+              {...register('roomId', {
+                // La capacité suit par défaut le nombre de barres de la salle
+                onChange: (e) => {
+                  const room = rooms.find((candidate) => candidate.id === e.target.value);
+                  if (room) {
+                    setValue('maxStudents', getRoomCapacity(room), { shouldValidate: true });
+                  }
+                },
+              })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+            >
+              <option value="">Aucune salle</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>{describeRoom(room)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
       <div>
         <label className="block text-sm font-medium text-gray-700">
           Niveau
@@ -198,23 +346,138 @@ export function ClassForm({ onSubmit, initialData, isEditing = false }: ClassFor
             disabled={isEditing}
           />
           <label className="ml-2 block text-sm text-gray-700">
-            Cours récurrent chaque semaine
+            Cours récurrent
             {isEditing && " (non modifiable)"}
           </label>
         </div>
 
-        {isEditingRecurring && (
-          <div className="flex items-center">
-            <input
-              type="checkbox"
-              {...register('updateRecurring')}
-              className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
-            />
-            <label className="ml-2 block text-sm text-gray-700">
-              Appliquer les modifications à tous les prochains cours
+        {isCreatingRecurring && (
+          <div className="space-y-4 rounded-md border border-gray-200 p-4">
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Jours</span>
+              <div className="mt-2 flex flex-wrap gap-3">
+                {weekdayOptions.map((weekday) => (
+                  <label key={weekday} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      value={String(weekday)}
+                      {...register('weekdays')}
+                      className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    <span className="ml-1 capitalize">{WEEKDAY_LABELS[weekday].slice(0, 3)}</span>
+                  </label>
+                ))}
+              </div>
+              {errors.weekdays && (
+                <p className="mt-1 text-sm text-red-600">{errors.weekdays.message}</p>
+              )}
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Fréquence
+              <select
+                {...register('interval', { valueAsNumber: true })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+              >
+                <option value={1}>Chaque semaine</option>
+                <option value={2}>Toutes les 2 semaines</option>
+                <option value={3}>Toutes les 3 semaines</option>
+                <option value={4}>Toutes les 4 semaines</option>
+              </select>
             </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Fin de la série
+                <select
+                  {...register('endType')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                >
+                  <option value="never">Jamais</option>
+                  <option value="until">À une date</option>
+                  <option value="count">Après un nombre de cours</option>
+                </select>
+              </label>
+              {endType === 'until' ? (
+                <label className="block text-sm font-medium text-gray-700">
+                  Dernier jour
+                  <input
+                    type="date"
+                    {...register('until')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                  />
+                </label>
+              ) : endType === 'count' && (
+                <label className="block text-sm font-medium text-gray-700">
+                  Nombre de cours
+                  <input
+                    type="number"
+                    min="1"
+                    {...register('count', { valueAsNumber: true })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                  />
+                </label>
+              )}
+            </div>
+            {(errors.until || errors.count) && (
+              <p className="text-sm text-red-600">{errors.until?.message || errors.count?.message}</p>
+            )}
+
+            {previewDates.length > 0 && (
+              <div className="rounded-md bg-purple-50 p-3 text-sm text-purple-900">
+                <p className="font-medium">
+                  {endType === 'never'
+                    ? `${describeRecurrenceRule(previewRule)}, sans date de fin`
+                    : `${describeRecurrenceRule(previewRule)} : ${previewDates.length} cours`}
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {previewDates.slice(0, PREVIEW_SIZE).map((date) => {
+                    // Aucun cours n'est créé pendant une fermeture de l'école
+                    const closure = getClosureOn(date, school?.closures);
+                    return (
+                      <li key={date.toISOString()} className={closure ? 'text-purple-400' : ''}>
+                        <span className={`capitalize ${closure ? 'line-through' : ''}`}>
+                          {format(date, "EEEE d MMMM yyyy 'à' HH'h'mm", { locale: fr })}
+                        </span>
+                        {closure && ` · fermé (${closure.label})`}
+                      </li>
+                    );
+                  })}
+                </ul>
+                {endType === 'never' ? (
+                  <p className="mt-1 text-purple-700">
+                    … les cours suivants sont ajoutés au fur et à mesure, {SERIES_HORIZON_WEEKS} semaines à l'avance
+                  </p>
+                ) : previewDates.length > PREVIEW_SIZE && (
+                  <p className="mt-1 text-purple-700">
+                    … puis {previewDates.length - PREVIEW_SIZE} autres cours, jusqu'au{' '}
+                    {format(previewDates[previewDates.length - 1], 'd MMMM yyyy', { locale: fr })}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         )}
+
+        {isEditingRecurring && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Appliquer les modifications à</legend>
+            {editScopeOptions.map((option) => (
+              <div key={option.value} className="flex items-center">
+                <input
+                  type="radio"
+                  value={option.value}
+                  {...register('editScope')}
+                  className="h-4 w-4 border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <label className="ml-2 block text-sm text-gray-700">{option.label}</label>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Un changement de jour ou d'horaire décale chaque cours dans sa propre semaine ; les inscriptions sont conservées.
+            </p>
+          </fieldset>
+        )}
       </div>
 
       <div>
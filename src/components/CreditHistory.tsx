@@ -0,0 +1,124 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { X, Loader2 } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { User, CreditLedgerEntry, CreditLedgerEntryType } from '../types';
+import { computeLedgerBalance } from '../utils/bookingUtils';
+
+interface CreditHistoryProps {
+  student: User;
+  onClose: () => void;
+}
+
+const entryLabels: Record<CreditLedgerEntryType, string> = {
+  grant: 'Ajout de crédits',
+  consume: 'Utilisation',
+  refund: 'Remboursement',
+  expiry: 'Expiration',
+  correction: 'Correction manuelle',
+};
+
+export function CreditHistory({ student, onClose }: CreditHistoryProps) {
+  const { fetchCreditLedger, fetchUserById } = useStore();
+  const [entries, setEntries] = React.useState<CreditLedgerEntry[]>([]);
+  const [authorNames, setAuthorNames] = React.useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const ledger = await fetchCreditLedger(student.id);
+        setEntries(ledger);
+
+        const authorIds = [...new Set(ledger.map((entry) => entry.authorId))];
+        const authors = await Promise.all(authorIds.map((authorId) => fetchUserById(authorId)));
+        setAuthorNames(
+          Object.fromEntries(
+            authors
+              .filter((author): author is User => author !== null)
+              .map((author) => [author.id, author.name])
+          )
+        );
+      } catch (error) {
+        console.error('Error loading credit history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadHistory();
+  }, [student.id, fetchCreditLedger, fetchUserById]);
+
+  const ledgerBalance = computeLedgerBalance(entries);
+  // Crédits attribués avant la mise en place du registre
+  const openingBalance = (student.credits || 0) - ledgerBalance;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Historique des crédits</h3>
+            <p className="text-sm text-gray-500">{student.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {isLoading ? (
+            <div className="flex flex-col items-center justify-center py-12 space-y-4">
+              <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+              <p className="text-sm text-gray-500">Chargement de l'historique...</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-between items-center bg-purple-50 rounded-lg px-4 py-3">
+                <span className="text-sm font-medium text-purple-900">Solde calculé</span>
+                <span className="text-lg font-semibold text-purple-900">
+                  {ledgerBalance} crédit{Math.abs(ledgerBalance) > 1 ? 's' : ''}
+                </span>
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">Aucun mouvement de crédits pour le moment</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {entries.map((entry) => (
+                    <li key={entry.id} className="py-3 flex justify-between items-start">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{entryLabels[entry.type]}</p>
+                        {entry.reason && (
+                          <p className="text-sm text-gray-600 truncate">{entry.reason}</p>
+                        )}
+                        <p className="text-xs text-gray-400">
+                          {format(parseISO(entry.createdAt), "d MMMM yyyy 'à' HH'h'mm", { locale: fr })}
+                          {authorNames[entry.authorId] && ` · par ${authorNames[entry.authorId]}`}
+                        </p>
+                      </div>
+                      <span className={`ml-4 text-sm font-semibold whitespace-nowrap ${
+                        entry.amount >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {openingBalance !== 0 && (
+                <p className="text-xs text-gray-500 text-center">
+                  Solde enregistré : {student.credits || 0}, dont {openingBalance} crédit{Math.abs(openingBalance) > 1 ? 's' : ''} antérieur{Math.abs(openingBalance) > 1 ? 's' : ''} à l'historique
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,88 @@
 import React from 'react';
-import { User } from '../types';
-import { User as UserIcon, X, Loader2 } from 'lucide-react';
+import { User, AttendanceStatus, Pole } from '../types';
+import { User as UserIcon, X, Loader2, UserCheck, UserX, Clock, AlertTriangle, Printer } from 'lucide-react';
 
 interface EnrolledStudentsListProps {
   students: User[];
   onClose: () => void;
   isLoading?: boolean;
+  attendance?: Record<string, AttendanceStatus>;
+  onMarkAttendance?: (studentId: string, status: AttendanceStatus) => Promise<void>;
+  toRegularize?: string[];
+  onClearRegularization?: (studentId: string) => Promise<void>;
+  poles?: Pole[];
+  poleAssignments?: Record<string, number>;
+  onAssignPole?: (studentId: string, pole: number | null) => Promise<void>;
+  onPrint?: () => void;
 }
 
-export function EnrolledStudentsList({ students, onClose, isLoading = false }: EnrolledStudentsListProps) {
+const attendanceOptions = [
+  { status: 'present' as const, label: 'Présent(e)', icon: UserCheck, activeClass: 'bg-green-100 text-green-700 border-green-300' },
+  { status: 'late' as const, label: 'En retard', icon: Clock, activeClass: 'bg-yellow-100 text-yellow-700 border-yellow-300' },
+  { status: 'absent' as const, label: 'Absent(e)', icon: UserX, activeClass: 'bg-red-100 text-red-700 border-red-300' },
+];
+
+export function EnrolledStudentsList({
+  students,
+  onClose,
+  isLoading = false,
+  attendance = {},
+  onMarkAttendance,
+  toRegularize = [],
+  onClearRegularization,
+  poles = [],
+  poleAssignments = {},
+  onAssignPole,
+  onPrint,
+}: EnrolledStudentsListProps) {
+  const [updatingStudentId, setUpdatingStudentId] = React.useState<string | null>(null);
+
+  const handleMarkAttendance = async (studentId: string, status: AttendanceStatus) => {
+    if (!onMarkAttendance) return;
+
+    try {
+      setUpdatingStudentId(studentId);
+      await onMarkAttendance(studentId, status);
+    } catch (error) {
+      console.error('Error marking attendance:', error);
+      alert("Une erreur s'est produite lors de l'enregistrement de la présence");
+    } finally {
+      setUpdatingStudentId(null);
+    }
+  };
+
+  const handleClearRegularization = async (studentId: string) => {
+    if (!onClearRegularization) return;
+
+    try {
+      setUpdatingStudentId(studentId);
+      await onClearRegularization(studentId);
+    } catch (error) {
+      console.error('Error clearing regularization:', error);
+      alert("Une erreur s'est produite lors de la mise à jour de la réservation");
+    } finally {
+      setUpdatingStudentId(null);
+    }
+  };
+
+  const handleAssignPole = async (studentId: string, value: string) => {
+    if (!onAssignPole) return;
+
+    try {
+      setUpdatingStudentId(studentId);
+      await onAssignPole(studentId, value ? Number(value) : null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors du changement de barre");
+    } finally {
+      setUpdatingStudentId(null);
+    }
+  };
+
+  // Avec un plan de salle, les élèves sont listés dans l'ordre des barres
+  const sortedStudents = poles.length > 0
+    ? [...students].sort((a, b) => (poleAssignments[a.id] ?? Infinity) - (poleAssignments[b.id] ?? Infinity))
+    : students;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -16,12 +90,23 @@ export function EnrolledStudentsList({ students, onClose, isLoading = false }: E
           <h3 className="text-lg font-semibold text-gray-900">
             Élèves inscrits ({students.length})
           </h3>
-          <button
-            onClick={onClose}
-            className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {onPrint && students.length > 0 && (
+              <button
+                onClick={onPrint}
+                className="p-2 text-gray-400 hover:text-purple-600 rounded-full hover:bg-purple-50"
+                title="Imprimer la liste"
+              >
+                <Printer className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 overflow-y-auto flex-1">
@@ -36,7 +121,7 @@ export function EnrolledStudentsList({ students, onClose, isLoading = false }: E
             </p>
           ) : (
             <div className="grid gap-4 sm:grid-cols-2">
-              {students.map((student) => (
+              {sortedStudents.map((student) => (
                 <div
                   key={student.id}
                   className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
@@ -54,9 +139,67 @@ export function EnrolledStudentsList({ students, onClose, isLoading = false }: E
                       </div>
                     )}
                   </div>
-                  <div className="min-w-0">
+                  <div className="min-w-0 flex-1">
                     <p className="font-medium text-gray-900 truncate">{student.name}</p>
                     <p className="text-sm text-gray-500 truncate">{student.email}</p>
+                    {poles.length > 0 && (
+                      <select
+                        value={poleAssignments[student.id] ?? ''}
+                        onChange={(e) => handleAssignPole(student.id, e.target.value)}
+                        disabled={!onAssignPole || updatingStudentId === student.id}
+                        className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      >
+                        <option value="">Sans barre</option>
+                        {poles.map((pole) => {
+                          const occupant = Object.keys(poleAssignments).find((id) => poleAssignments[id] === pole.number);
+                          const occupantName = occupant && occupant !== student.id
+                            ? students.find((candidate) => candidate.id === occupant)?.name
+                            : null;
+                          return (
+                            <option key={pole.number} value={pole.number}>
+                              Barre {pole.number} · {pole.type === 'static' ? 'statique' : 'spinning'}
+                              {occupantName ? ` (échanger avec ${occupantName})` : ''}
+                            </option>
+                          );
+                        })}
+                      </select>
+                    )}
+                    {toRegularize.includes(student.id) && (
+                      <div className="mt-1 flex items-center gap-2">
+                        <span className="inline-flex items-center text-xs font-medium text-orange-700">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          À régulariser
+                        </span>
+                        {onClearRegularization && (
+                          <button
+                            onClick={() => handleClearRegularization(student.id)}
+                            disabled={updatingStudentId === student.id}
+                            className="text-xs text-purple-600 hover:text-purple-700 disabled:opacity-50"
+                          >
+                            Marquer comme réglé
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {onMarkAttendance && (
+                      <div className="mt-2 flex gap-1">
+                        {attendanceOptions.map(({ status, label, icon: Icon, activeClass }) => (
+                          <button
+                            key={status}
+                            onClick={() => handleMarkAttendance(student.id, status)}
+                            disabled={updatingStudentId === student.id}
+                            title={label}
+                            className={`p-1.5 rounded-md border transition-colors disabled:opacity-50 ${
+                              attendance[student.id] === status
+                                ? activeClass
+                                : 'bg-white text-gray-400 border-gray-200 hover:text-gray-600'
+                            }`}
+                          >
+                            <Icon className="w-4 h-4" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
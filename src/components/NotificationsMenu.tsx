@@ -0,0 +1,63 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Bell } from 'lucide-react';
+import { useStore } from '../store/useStore';
+
+export function NotificationsMenu() {
+  const { user, notifications, fetchNotifications, markNotificationsRead } = useStore();
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!user?.id) return;
+    fetchNotifications().catch((error) => console.error('Error loading notifications:', error));
+  }, [user?.id, fetchNotifications]);
+
+  const unreadCount = notifications.filter((notification) => !notification.read).length;
+
+  const handleToggle = () => {
+    setIsOpen(!isOpen);
+    if (!isOpen && unreadCount > 0) {
+      markNotificationsRead().catch((error) => console.error('Error marking notifications as read:', error));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 text-gray-600 hover:text-purple-600 rounded-full hover:bg-gray-100"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-purple-600 text-white text-xs flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-40 max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">Aucune notification</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`px-4 py-3 ${notification.read ? '' : 'bg-purple-50'}`}
+                >
+                  <p className="text-sm text-gray-900">{notification.message}</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    {format(parseISO(notification.createdAt), "d MMMM 'à' HH'h'mm", { locale: fr })}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
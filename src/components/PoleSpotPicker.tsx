@@ -0,0 +1,74 @@
+import { X } from 'lucide-react';
+import { Pole } from '../types';
+import { formatPole } from '../utils/bookingUtils';
+
+interface PoleSpotPickerProps {
+  poles: Pole[];
+  takenPoles: Map<number, string>;
+  currentUserId: string;
+  onSelect: (pole: number | null) => void;
+  onClose: () => void;
+}
+
+export function PoleSpotPicker({ poles, takenPoles, currentUserId, onSelect, onClose }: PoleSpotPickerProps) {
+  const rows = poles.reduce<Pole[][]>((grid, pole) => {
+    grid[pole.row] = [...(grid[pole.row] || []), pole];
+    return grid;
+  }, []);
+
+  return (
+    <div className="absolute inset-0 bg-white rounded-lg p-6 z-10 overflow-y-auto">
+      <div className="flex justify-between items-start mb-4">
+        <h4 className="text-lg font-semibold text-purple-600">Choisir ma barre</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="mb-2 rounded bg-gray-200 py-1 text-center text-xs font-medium uppercase tracking-wide text-gray-600">
+        Miroir
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-4 gap-2">
+            {row.map((pole) => {
+              const occupantId = takenPoles.get(pole.number);
+              const isMine = occupantId === currentUserId;
+              const isTaken = !!occupantId && !isMine;
+
+              return (
+                <button
+                  key={pole.number}
+                  onClick={() => onSelect(pole.number)}
+                  disabled={isTaken}
+                  title={formatPole(pole)}
+                  className={`flex flex-col items-center rounded-md border py-2 text-sm transition-colors ${
+                    isMine
+                      ? 'border-purple-600 bg-purple-600 text-white'
+                      : isTaken
+                      ? 'border-gray-200 bg-gray-100 text-gray-400 cursor-not-allowed'
+                      : 'border-purple-300 text-purple-700 hover:bg-purple-50'
+                  }`}
+                >
+                  <span className="font-semibold">{pole.number}</span>
+                  <span className="text-xs">{pole.type === 'static' ? 'statique' : 'spinning'}</span>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onSelect(null)}
+        className="w-full px-4 py-2 text-sm font-medium border rounded-md border-purple-600 text-purple-600 hover:bg-purple-50"
+      >
+        Sans préférence
+      </button>
+    </div>
+  );
+}
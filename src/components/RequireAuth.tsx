@@ -0,0 +1,39 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useStore } from '../store/useStore';
+import { User } from '../types';
+
+interface RequireAuthProps {
+  role?: User['role'];
+  requireSchool?: boolean;
+  children: React.ReactElement;
+}
+
+// Un visiteur non connecté passe par la connexion puis revient sur la page demandée
+export function RequireAuth({ role, requireSchool = false, children }: RequireAuthProps) {
+  const { user, school } = useStore();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (role && user.role !== role) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (requireSchool && !user.schoolId) {
+    return <Navigate to="/" replace />;
+  }
+
+  // L'école est chargée juste après l'utilisateur
+  if (requireSchool && !school) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return children;
+}
@@ -0,0 +1,131 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { ArrowRight, Loader2, X } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { Class, ScheduleConflict, SeriesEditScope } from '../types';
+import { ScheduleConflictError } from '../utils/scheduleUtils';
+import { editScopeOptions } from './ClassForm';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+
+interface RescheduleDialogProps {
+  classData: Class;
+  datetime: Date;
+  duration: number;
+  onClose: () => void;
+}
+
+const formatSlot = (datetime: Date, duration: number) =>
+  `${format(datetime, "EEEE d MMMM 'à' HH'h'mm", { locale: fr })} · ${duration} min`;
+
+export function RescheduleDialog({ classData, datetime, duration, onClose }: RescheduleDialogProps) {
+  const { updateClass } = useStore();
+  const [scope, setScope] = React.useState<SeriesEditScope>('occurrence');
+  const [conflicts, setConflicts] = React.useState<ScheduleConflict[] | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleConfirm = async (allowConflicts = false) => {
+    try {
+      setIsSaving(true);
+      await updateClass(
+        classData.id,
+        {
+          datetime: datetime.toISOString(),
+          ...(duration !== classData.duration && { duration }),
+        },
+        classData.seriesId ? scope : 'occurrence',
+        allowConflicts
+      );
+      onClose();
+    } catch (error) {
+      if (error instanceof ScheduleConflictError) {
+        setConflicts(error.conflicts);
+        return;
+      }
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors du déplacement du cours");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (conflicts) {
+    return (
+      <ScheduleConflictDialog
+        conflicts={conflicts}
+        onConfirm={() => handleConfirm(true)}
+        onClose={onClose}
+        isLoading={isSaving}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <h4 className="text-lg font-semibold text-purple-600">Déplacer « {classData.title} »</h4>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+            disabled={isSaving}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 space-y-1 text-sm">
+          <p className="text-gray-500 capitalize">{formatSlot(parseISO(classData.datetime), classData.duration)}</p>
+          <p className="flex items-center font-medium text-gray-900 capitalize">
+            <ArrowRight className="w-4 h-4 mr-1 text-purple-600" />
+            {formatSlot(datetime, duration)}
+          </p>
+        </div>
+
+        {classData.seriesId && (
+          <fieldset className="mb-4 space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Appliquer le changement à</legend>
+            {editScopeOptions.map((option) => (
+              <label key={option.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                  className="mr-2 h-4 w-4 border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {classData.enrolledStudents.length > 0 && (
+          <p className="mb-4 text-sm text-gray-500">Les élèves inscrits seront prévenus du nouvel horaire.</p>
+        )}
+
+        <div className="flex flex-col space-y-3">
+          <button
+            onClick={() => handleConfirm()}
+            disabled={isSaving}
+            className="w-full px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            {isSaving ? (
+              <span className="flex items-center justify-center">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Chargement...
+              </span>
+            ) : (
+              'Déplacer le cours'
+            )}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="w-full px-4 py-2 text-sm font-medium border rounded-md transition-colors disabled:opacity-50 border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Annuler
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { ScheduleConflict } from '../types';
+import { formatScheduleConflict } from '../utils/scheduleUtils';
+
+interface ScheduleConflictDialogProps {
+  conflicts: ScheduleConflict[];
+  onConfirm: () => void;
+  onClose: () => void;
+  isLoading: boolean;
+}
+
+export function ScheduleConflictDialog({ conflicts, onConfirm, onClose, isLoading }: ScheduleConflictDialogProps) {
+  // Une salle ne peut pas accueillir deux cours à la fois : ce conflit ne se confirme pas
+  const isBlocking = conflicts.some((conflict) => conflict.reason === 'room');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center mb-4 text-amber-600">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <h4 className="text-lg font-semibold">Conflit d'horaire</h4>
+        </div>
+
+        <p className="text-sm text-gray-700 mb-3">
+          {isBlocking
+            ? "La salle est déjà réservée sur ce créneau. Choisissez un autre horaire ou une autre salle :"
+            : `Le professeur a déjà ${conflicts.length > 1 ? 'ces cours' : 'ce cours'} sur le même créneau :`}
+        </p>
+        <ul className="mb-6 space-y-1 text-sm text-gray-900">
+          {conflicts.map((conflict) => (
+            <li key={conflict.classId}>
+              {formatScheduleConflict(conflict)}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-col space-y-3">
+          {!isBlocking && (
+            <button
+              onClick={onConfirm}
+              disabled={isLoading}
+              className="w-full px-4 py-2 text-sm font-medium border rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed border-amber-600 text-amber-700 hover:bg-amber-50"
+            >
+              {isLoading ? (
+                <span className="flex items-center justify-center">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Chargement...
+                </span>
+              ) : (
+                'Enregistrer quand même'
+              )}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            disabled={isLoading}
+            className="w-full px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            Modifier le cours
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import React from 'react';
 import { useStore } from '../store/useStore';
-import { School } from '../types';
-import { X, Instagram, Mail, MapPin, Upload } from 'lucide-react';
-import { useForm } from 'react-hook-form';
+import { School, CancellationPolicy, ClassLevel, SubscriptionPlan, SchoolClosure } from '../types';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_PACK_TEMPLATES,
+  DEFAULT_SUBSCRIPTION_PLANS,
+  DEFAULT_SUBSCRIPTION_EXPIRY_ACTION,
+  describeRoom
+} from '../utils/bookingUtils';
+import { formatClosurePeriod } from '../utils/dateUtils';
+import { ConfirmDialog } from './ConfirmDialog';
+import { format } from 'date-fns';
+import { X, Instagram, Mail, MapPin, Upload, CalendarX, CalendarOff, DoorOpen, Plus, Trash2 } from 'lucide-react';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
@@ -29,9 +39,77 @@ const schoolSchema = z.object({
   email: z.string().email('Email invalide'),
   instagram: z.string().url('URL Instagram invalide').optional().or(z.literal('')),
   logo: z.string().url('URL du logo invalide').optional().or(z.literal('')),
+  cancellationPolicy: z.object({
+    cutoffHours: z.number().min(0, 'Le délai ne peut pas être négatif').max(168, 'Le délai ne peut pas dépasser 7 jours'),
+    refundBeforeCutoff: z.boolean(),
+    refundAfterCutoff: z.boolean(),
+    lateCancellationPenalty: z.number().min(0).max(10),
+  }),
+  packTemplates: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(2, 'Le nom doit faire au moins 2 caractères'),
+    size: z.number().int().min(1, 'Au moins 1 cours').max(100),
+    validityMonths: z.number().int().min(1, 'Au moins 1 mois').max(24),
+  })),
+  subscriptionExpiryAction: z.enum(['unenroll', 'flag']),
+  closures: z.array(z.object({
+    id: z.string(),
+    label: z.string().min(2, 'Le libellé doit faire au moins 2 caractères'),
+    startDate: z.string().min(1, 'Date de début requise'),
+    endDate: z.string(),
+  }).refine((closure) => !closure.endDate || closure.endDate >= closure.startDate, {
+    message: 'La fin doit suivre le début',
+    path: ['endDate'],
+  })),
+  rooms: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1, 'Nom de la salle requis'),
+    staticPoles: z.number().int().min(0, 'Nombre invalide').max(50),
+    spinningPoles: z.number().int().min(0, 'Nombre invalide').max(50),
+  }).refine((room) => room.staticPoles + room.spinningPoles > 0, {
+    message: 'Une salle compte au moins une barre',
+    path: ['staticPoles'],
+  })),
+  // Un quota à 0 correspond à une formule illimitée
+  subscriptionPlans: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(2, 'Le nom doit faire au moins 2 caractères'),
+    durationMonths: z.number().int().min(1, 'Au moins 1 mois').max(24),
+    quotaClasses: z.number().int().min(0, 'Le quota ne peut pas être négatif').max(50),
+    quotaPeriod: z.enum(['week', 'month']),
+    allowedLevels: z.array(z.enum(['beginner', 'intermediate', 'advanced'])),
+  })),
 });
 
 type SchoolFormInputs = z.infer<typeof schoolSchema>;
+type SubscriptionPlanInputs = SchoolFormInputs['subscriptionPlans'][number];
+
+const levelLabels: Record<ClassLevel, string> = {
+  beginner: 'Débutant',
+  intermediate: 'Intermédiaire',
+  advanced: 'Avancé',
+};
+
+function toPlanInputs(plan: SubscriptionPlan): SubscriptionPlanInputs {
+  return {
+    id: plan.id,
+    name: plan.name,
+    durationMonths: plan.durationMonths,
+    quotaClasses: plan.quota?.classes || 0,
+    quotaPeriod: plan.quota?.period || 'week',
+    allowedLevels: plan.allowedLevels || [],
+  };
+}
+
+function fromPlanInputs(inputs: SubscriptionPlanInputs): SubscriptionPlan {
+  return {
+    id: inputs.id,
+    name: inputs.name,
+    durationMonths: inputs.durationMonths,
+    quota: inputs.quotaClasses > 0 ? { period: inputs.quotaPeriod, classes: inputs.quotaClasses } : null,
+    allowedLevels: inputs.allowedLevels,
+  };
+}
 
 function GeocoderControl() {
   const map = useMap();
@@ -56,21 +134,79 @@ function GeocoderControl() {
   return null;
 }
 
+function describeCancellationPolicy(policy: CancellationPolicy) {
+  if (policy.cutoffHours === 0) {
+    return policy.refundBeforeCutoff
+      ? "Annulation gratuite jusqu'au début du cours"
+      : "Les crédits ne sont pas remboursés en cas d'annulation";
+  }
+
+  const penalty = policy.lateCancellationPenalty || 0;
+  const lateTerms = [
+    policy.refundAfterCutoff ? 'crédit remboursé' : 'crédit non remboursé',
+    penalty > 0 && `pénalité de ${penalty} crédit${penalty > 1 ? 's' : ''}`,
+  ].filter(Boolean).join(', ');
+
+  return `Annulation ${policy.refundBeforeCutoff ? 'remboursée' : 'non remboursée'} jusqu'à ${policy.cutoffHours} h avant le cours, ` +
+    `puis annulation tardive (${lateTerms})`;
+}
+
 export function SchoolDetails({ onClose }: SchoolDetailsProps) {
-  const { user, school, updateSchool } = useStore();
+  const { user, school, updateSchool, cancelClassesInRange } = useStore();
   const [isEditing, setIsEditing] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(false);
   const [coordinates, setCoordinates] = React.useState<[number, number] | null>(null);
+  const [closureToCancel, setClosureToCancel] = React.useState<SchoolClosure | null>(null);
+  const [isCancellingClasses, setIsCancellingClasses] = React.useState(false);
 
   const {
     register,
+    control,
     handleSubmit,
     formState: { errors },
   } = useForm<SchoolFormInputs>({
     resolver: zodResolver(schoolSchema),
-    defaultValues: school || undefined,
+    defaultValues: school
+      ? {
+          ...school,
+          cancellationPolicy: {
+            ...DEFAULT_CANCELLATION_POLICY,
+            ...school.cancellationPolicy,
+          },
+          packTemplates: school.packTemplates?.length ? school.packTemplates : DEFAULT_PACK_TEMPLATES,
+          subscriptionExpiryAction: school.subscriptionExpiryAction || DEFAULT_SUBSCRIPTION_EXPIRY_ACTION,
+          closures: school.closures || [],
+          rooms: school.rooms || [],
+          subscriptionPlans: (school.subscriptionPlans?.length ? school.subscriptionPlans : DEFAULT_SUBSCRIPTION_PLANS)
+            .map(toPlanInputs),
+        }
+      : undefined,
   });
 
+  const {
+    fields: packTemplateFields,
+    append: appendPackTemplate,
+    remove: removePackTemplate,
+  } = useFieldArray({ control, name: 'packTemplates' });
+
+  const {
+    fields: subscriptionPlanFields,
+    append: appendSubscriptionPlan,
+    remove: removeSubscriptionPlan,
+  } = useFieldArray({ control, name: 'subscriptionPlans' });
+
+  const {
+    fields: closureFields,
+    append: appendClosure,
+    remove: removeClosure,
+  } = useFieldArray({ control, name: 'closures' });
+
+  const {
+    fields: roomFields,
+    append: appendRoom,
+    remove: removeRoom,
+  } = useFieldArray({ control, name: 'rooms' });
+
   React.useEffect(() => {
     if (!school?.address) return;
 
@@ -85,7 +221,14 @@ export function SchoolDetails({ onClose }: SchoolDetailsProps) {
   const handleUpdateSchool = async (data: SchoolFormInputs) => {
     try {
       setIsLoading(true);
-      await updateSchool(data);
+      await updateSchool({
+        ...data,
+        subscriptionPlans: data.subscriptionPlans.map(fromPlanInputs),
+        // Une fermeture sans date de fin ne dure qu'un jour
+        closures: data.closures
+          .map((closure) => ({ ...closure, endDate: closure.endDate || closure.startDate }))
+          .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+      });
       setIsEditing(false);
     } catch (error) {
       console.error('Error updating school:', error);
@@ -95,11 +238,48 @@ export function SchoolDetails({ onClose }: SchoolDetailsProps) {
     }
   };
 
+  const handleCancelClosureClasses = async () => {
+    if (!closureToCancel) return;
+
+    try {
+      setIsCancellingClasses(true);
+      const count = await cancelClassesInRange(
+        closureToCancel.startDate,
+        closureToCancel.endDate,
+        `Fermeture : ${closureToCancel.label}`
+      );
+      setClosureToCancel(null);
+      alert(count > 0
+        ? `${count} cours annulé${count > 1 ? 's' : ''}. Les élèves inscrits ont été prévenus et remboursés.`
+        : 'Aucun cours prévu pendant cette fermeture.');
+    } catch (error) {
+      console.error('Error cancelling closure classes:', error);
+      alert("Une erreur s'est produite lors de l'annulation des cours.");
+    } finally {
+      setIsCancellingClasses(false);
+    }
+  };
+
   if (!school) return null;
 
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingClosures = (school.closures || []).filter((closure) => closure.endDate >= today);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+      <div className="relative bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {closureToCancel && (
+          <ConfirmDialog
+            title="Annuler les cours de la fermeture"
+            message={`Tous les cours prévus ${formatClosurePeriod(closureToCancel)} (${closureToCancel.label}) seront annulés. ` +
+              'Les élèves inscrits seront désinscrits, remboursés et prévenus.'}
+            onConfirmOne={handleCancelClosureClasses}
+            onClose={() => setClosureToCancel(null)}
+            confirmOneText="Annuler les cours"
+            isLoadingOne={isCancellingClasses}
+            variant="danger"
+          />
+        )}
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
           <h2 className="text-xl font-semibold text-gray-900">
             {isEditing ? "Modifier l'école" : "Détails de l'école"}
@@ -187,6 +367,348 @@ export function SchoolDetails({ onClose }: SchoolDetailsProps) {
                 )}
               </div>
 
+              <fieldset className="space-y-4 border-t border-gray-200 pt-6">
+                <legend className="text-sm font-semibold text-gray-900">Politique d'annulation</legend>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Délai d'annulation (heures avant le cours)
+                      <input
+                        type="number"
+                        min="0"
+                        {...register('cancellationPolicy.cutoffHours', { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    {errors.cancellationPolicy?.cutoffHours && (
+                      <p className="mt-1 text-sm text-red-600">{errors.cancellationPolicy.cutoffHours.message}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Pénalité en cas d'annulation tardive (crédits)
+                      <input
+                        type="number"
+                        min="0"
+                        {...register('cancellationPolicy.lateCancellationPenalty', { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    {...register('cancellationPolicy.refundBeforeCutoff')}
+                    className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  <label className="ml-2 block text-sm text-gray-700">
+                    Rembourser le crédit en cas d'annulation dans les délais
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    {...register('cancellationPolicy.refundAfterCutoff')}
+                    className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  <label className="ml-2 block text-sm text-gray-700">
+                    Rembourser le crédit en cas d'annulation tardive
+                  </label>
+                </div>
+              </fieldset>
+
+              <fieldset className="space-y-4 border-t border-gray-200 pt-6">
+                <legend className="text-sm font-semibold text-gray-900">Carnets de cours</legend>
+
+                {packTemplateFields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-12 gap-3 items-end">
+                    <label className="col-span-6 block text-sm font-medium text-gray-700">
+                      Nom
+                      <input
+                        type="text"
+                        {...register(`packTemplates.${index}.name`)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-2 block text-sm font-medium text-gray-700">
+                      Cours
+                      <input
+                        type="number"
+                        min="1"
+                        {...register(`packTemplates.${index}.size`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-3 block text-sm font-medium text-gray-700">
+                      Validité (mois)
+                      <input
+                        type="number"
+                        min="1"
+                        {...register(`packTemplates.${index}.validityMonths`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removePackTemplate(index)}
+                      className="col-span-1 p-2 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    {errors.packTemplates?.[index] && (
+                      <p className="col-span-12 text-sm text-red-600">
+                        {errors.packTemplates[index]?.name?.message ||
+                          errors.packTemplates[index]?.size?.message ||
+                          errors.packTemplates[index]?.validityMonths?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => appendPackTemplate({ id: crypto.randomUUID(), name: '', size: 10, validityMonths: 6 })}
+                  className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ajouter un carnet
+                </button>
+              </fieldset>
+
+              <fieldset className="space-y-4 border-t border-gray-200 pt-6">
+                <legend className="text-sm font-semibold text-gray-900">Formules d'abonnement</legend>
+                <p className="text-sm text-gray-500">
+                  Laissez le quota à 0 pour une formule illimitée. Sans niveau coché, la formule donne accès à tous les cours.
+                </p>
+
+                {subscriptionPlanFields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-12 gap-3 items-end border-b border-gray-100 pb-4">
+                    <label className="col-span-5 block text-sm font-medium text-gray-700">
+                      Nom
+                      <input
+                        type="text"
+                        {...register(`subscriptionPlans.${index}.name`)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-2 block text-sm font-medium text-gray-700">
+                      Durée (mois)
+                      <input
+                        type="number"
+                        min="1"
+                        {...register(`subscriptionPlans.${index}.durationMonths`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-2 block text-sm font-medium text-gray-700">
+                      Quota
+                      <input
+                        type="number"
+                        min="0"
+                        {...register(`subscriptionPlans.${index}.quotaClasses`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-2 block text-sm font-medium text-gray-700">
+                      Par
+                      <select
+                        {...register(`subscriptionPlans.${index}.quotaPeriod`)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      >
+                        <option value="week">semaine</option>
+                        <option value="month">mois</option>
+                      </select>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeSubscriptionPlan(index)}
+                      className="col-span-1 p-2 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <div className="col-span-12 flex items-center space-x-4">
+                      <span className="text-sm text-gray-700">Niveaux inclus :</span>
+                      {(Object.keys(levelLabels) as ClassLevel[]).map((level) => (
+                        <label key={level} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            value={level}
+                            {...register(`subscriptionPlans.${index}.allowedLevels`)}
+                            className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                          />
+                          <span className="ml-1">{levelLabels[level]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    {errors.subscriptionPlans?.[index] && (
+                      <p className="col-span-12 text-sm text-red-600">
+                        {errors.subscriptionPlans[index]?.name?.message ||
+                          errors.subscriptionPlans[index]?.durationMonths?.message ||
+                          errors.subscriptionPlans[index]?.quotaClasses?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => appendSubscriptionPlan({
+                    id: crypto.randomUUID(),
+                    name: '',
+                    durationMonths: 3,
+                    quotaClasses: 0,
+                    quotaPeriod: 'week',
+                    allowedLevels: [],
+                  })}
+                  className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ajouter une formule
+                </button>
+
+                <label className="block text-sm font-medium text-gray-700">
+                  À l'échéance d'un abonnement, les cours réservés au-delà
+                  <select
+                    {...register('subscriptionExpiryAction')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                  >
+                    <option value="flag">restent réservés et sont signalés « à régulariser »</option>
+                    <option value="unenroll">sont annulés (l'élève est désinscrit)</option>
+                  </select>
+                </label>
+              </fieldset>
+
+              <fieldset className="space-y-4 border-t border-gray-200 pt-6">
+                <legend className="text-sm font-semibold text-gray-900">Salles</legend>
+                <p className="text-sm text-gray-500">
+                  La capacité d'un cours est limitée au nombre de barres de sa salle.
+                </p>
+
+                {roomFields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-12 gap-3 items-end">
+                    <label className="col-span-5 block text-sm font-medium text-gray-700">
+                      Nom
+                      <input
+                        type="text"
+                        {...register(`rooms.${index}.name`)}
+                        placeholder="Grande salle"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-3 block text-sm font-medium text-gray-700">
+                      Barres statiques
+                      <input
+                        type="number"
+                        min="0"
+                        {...register(`rooms.${index}.staticPoles`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-3 block text-sm font-medium text-gray-700">
+                      Barres spinning
+                      <input
+                        type="number"
+                        min="0"
+                        {...register(`rooms.${index}.spinningPoles`, { valueAsNumber: true })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeRoom(index)}
+                      className="col-span-1 p-2 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    {errors.rooms?.[index] && (
+                      <p className="col-span-12 text-sm text-red-600">
+                        {errors.rooms[index]?.name?.message ||
+                          errors.rooms[index]?.staticPoles?.message ||
+                          errors.rooms[index]?.spinningPoles?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => appendRoom({ id: crypto.randomUUID(), name: '', staticPoles: 4, spinningPoles: 0 })}
+                  className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ajouter une salle
+                </button>
+              </fieldset>
+
+              <fieldset className="space-y-4 border-t border-gray-200 pt-6">
+                <legend className="text-sm font-semibold text-gray-900">Fermetures</legend>
+                <p className="text-sm text-gray-500">
+                  Aucun cours récurrent n'est créé pendant une fermeture. Laissez la fin vide pour un seul jour.
+                </p>
+
+                {closureFields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-12 gap-3 items-end">
+                    <label className="col-span-5 block text-sm font-medium text-gray-700">
+                      Libellé
+                      <input
+                        type="text"
+                        {...register(`closures.${index}.label`)}
+                        placeholder="Vacances de Noël"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-3 block text-sm font-medium text-gray-700">
+                      Du
+                      <input
+                        type="date"
+                        {...register(`closures.${index}.startDate`)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <label className="col-span-3 block text-sm font-medium text-gray-700">
+                      Au
+                      <input
+                        type="date"
+                        {...register(`closures.${index}.endDate`)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeClosure(index)}
+                      className="col-span-1 p-2 text-gray-400 hover:text-red-600 rounded-full hover:bg-red-50"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    {errors.closures?.[index] && (
+                      <p className="col-span-12 text-sm text-red-600">
+                        {errors.closures[index]?.label?.message ||
+                          errors.closures[index]?.startDate?.message ||
+                          errors.closures[index]?.endDate?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => appendClosure({ id: crypto.randomUUID(), label: '', startDate: '', endDate: '' })}
+                  className="inline-flex items-center text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ajouter une fermeture
+                </button>
+              </fieldset>
+
               <div className="flex justify-end space-x-3">
                 <button
                   type="button"
@@ -264,6 +786,43 @@ export function SchoolDetails({ onClose }: SchoolDetailsProps) {
                   </a>
                 </div>
 
+                <div className="flex items-start space-x-2">
+                  <CalendarX className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-gray-900">{describeCancellationPolicy(school.cancellationPolicy || DEFAULT_CANCELLATION_POLICY)}</p>
+                </div>
+
+                {!!school.rooms?.length && (
+                  <div className="flex items-start space-x-2">
+                    <DoorOpen className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <ul className="space-y-1">
+                      {school.rooms.map((room) => (
+                        <li key={room.id} className="text-gray-900">{describeRoom(room)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {upcomingClosures.length > 0 && (
+                  <div className="flex items-start space-x-2">
+                    <CalendarOff className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <ul className="space-y-1">
+                      {upcomingClosures.map((closure) => (
+                        <li key={closure.id} className="text-gray-900">
+                          {closure.label} : fermé {formatClosurePeriod(closure)}
+                          {user?.role === 'teacher' && (
+                            <button
+                              onClick={() => setClosureToCancel(closure)}
+                              className="ml-2 text-sm text-red-600 hover:text-red-700"
+                            >
+                              Annuler les cours
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {school.instagram && (
                   <div className="flex items-center space-x-2">
                     <Instagram className="w-5 h-5 text-gray-400" />
@@ -0,0 +1,157 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, Loader2 } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { Class, ScheduleConflict, User } from '../types';
+import { getOccurrenceTeacherId } from '../utils/bookingUtils';
+import { ScheduleConflictError } from '../utils/scheduleUtils';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+
+interface SubstituteTeacherDialogProps {
+  classData: Class;
+  onClose: () => void;
+}
+
+export function SubstituteTeacherDialog({ classData, onClose }: SubstituteTeacherDialogProps) {
+  const { fetchSchoolTeachers, assignSubstitute } = useStore();
+  const [teachers, setTeachers] = React.useState<User[]>([]);
+  const [teacherId, setTeacherId] = React.useState(getOccurrenceTeacherId(classData));
+  const [scope, setScope] = React.useState<'occurrence' | 'range'>('occurrence');
+  const [until, setUntil] = React.useState(format(parseISO(classData.datetime), 'yyyy-MM-dd'));
+  const [conflicts, setConflicts] = React.useState<ScheduleConflict[] | null>(null);
+  const [isLoadingTeachers, setIsLoadingTeachers] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    fetchSchoolTeachers()
+      .then(setTeachers)
+      .catch((error) => console.error('Error loading teachers:', error))
+      .finally(() => setIsLoadingTeachers(false));
+  }, [fetchSchoolTeachers]);
+
+  const handleSave = async (allowConflicts = false) => {
+    try {
+      setIsSaving(true);
+      await assignSubstitute(
+        classData.id,
+        teacherId === classData.teacherId ? null : teacherId,
+        scope === 'range' ? until : undefined,
+        allowConflicts
+      );
+      onClose();
+    } catch (error) {
+      if (error instanceof ScheduleConflictError) {
+        setConflicts(error.conflicts);
+        return;
+      }
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors du remplacement");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleSave();
+  };
+
+  // Fermer le conflit ramène au choix du professeur
+  if (conflicts) {
+    return (
+      <ScheduleConflictDialog
+        conflicts={conflicts}
+        onConfirm={() => handleSave(true)}
+        onClose={() => setConflicts(null)}
+        isLoading={isSaving}
+      />
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 bg-white rounded-lg p-6 z-10 overflow-y-auto">
+      <div className="flex justify-between items-start mb-4">
+        <h4 className="text-lg font-semibold text-purple-600">Remplacement</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100"
+          disabled={isSaving}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoadingTeachers ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-purple-600 animate-spin" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Cours assuré par
+            <select
+              value={teacherId}
+              onChange={(e) => setTeacherId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500"
+            >
+              {teachers.map((teacher) => (
+                <option key={teacher.id} value={teacher.id}>
+                  {teacher.name}{teacher.id === classData.teacherId ? ' (professeur habituel)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {classData.seriesId && (
+            <fieldset className="space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={scope === 'occurrence'}
+                  onChange={() => setScope('occurrence')}
+                  className="mr-2 text-purple-600 focus:ring-purple-500"
+                />
+                Ce cours uniquement
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={scope === 'range'}
+                  onChange={() => setScope('range')}
+                  className="mr-2 text-purple-600 focus:ring-purple-500"
+                />
+                Les cours de la série jusqu'au
+                <input
+                  type="date"
+                  value={until}
+                  min={format(parseISO(classData.datetime), 'yyyy-MM-dd')}
+                  onChange={(e) => {
+                    setUntil(e.target.value);
+                    setScope('range');
+                  }}
+                  className="ml-2 rounded-md border-gray-300 shadow-sm text-sm focus:border-purple-500 focus:ring-purple-500"
+                />
+              </label>
+            </fieldset>
+          )}
+
+          <p className="text-sm text-gray-500">Les élèves inscrits seront prévenus du changement.</p>
+
+          <button
+            type="submit"
+            disabled={isSaving || (scope === 'range' && !until)}
+            className="w-full px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            {isSaving ? (
+              <span className="flex items-center justify-center">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Chargement...
+              </span>
+            ) : (
+              'Enregistrer'
+            )}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
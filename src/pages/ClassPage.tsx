@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useStore } from '../store/useStore';
+import { ClassCard } from '../components/ClassCard';
+import { Class } from '../types';
+
+export function ClassPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, classes, fetchClass } = useStore();
+  const [fetchedClass, setFetchedClass] = useState<Class | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadClass = async () => {
+      try {
+        setIsLoading(true);
+        // Les cours de la fenêtre chargée sont suivis en temps réel ; un cours plus ancien est lu une fois
+        setFetchedClass(await fetchClass(id));
+      } catch (error) {
+        console.error('Error loading class:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadClass();
+  }, [id, fetchClass]);
+
+  const classData = classes.find((c) => c.id === id) || fetchedClass;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="mb-6">
+        <Link to="/" className="text-sm text-purple-600 hover:text-purple-700">
+          ← Retour aux cours
+        </Link>
+      </div>
+
+      {!classData ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+          Ce cours n'existe pas ou a été supprimé
+        </div>
+      ) : classData.schoolId !== user?.schoolId ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+          Ce cours est proposé par une autre école. Rejoignez-la depuis votre compte pour pouvoir le réserver.
+        </div>
+      ) : (
+        <ClassCard classData={classData} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { isFuture, parseISO } from 'date-fns';
+import { Repeat, Share2 } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { ClassCard } from '../components/ClassCard';
+import { ClassSeries } from '../types';
+import { describeRecurrenceRule } from '../utils/dateUtils';
+import { shareLink } from '../utils/shareUtils';
+
+export function SeriesPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user, classes, fetchClasses, fetchSeries } = useStore();
+  const [series, setSeries] = useState<ClassSeries | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadSeries = async () => {
+      try {
+        setIsLoading(true);
+        await fetchClasses();
+        setSeries(await fetchSeries(id));
+      } catch (error) {
+        console.error('Error loading series:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadSeries();
+  }, [id, fetchClasses, fetchSeries]);
+
+  // Toutes les occurrences à venir sont déjà chargées par fetchClasses
+  const occurrences = classes
+    .filter((c) => c.seriesId === id && isFuture(parseISO(c.datetime)))
+    .sort((a, b) => a.datetime.localeCompare(b.datetime));
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/" className="text-sm text-purple-600 hover:text-purple-700">
+        ← Retour aux cours
+      </Link>
+
+      {!series || series.schoolId !== user?.schoolId ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+          Cette série de cours n'existe pas ou n'est pas proposée par votre école
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="flex items-center text-2xl font-bold text-gray-900">
+                <Repeat className="w-6 h-6 mr-2 text-purple-500" />
+                {series.title}
+              </h2>
+              <p className="text-sm text-gray-500">{describeRecurrenceRule(series.rule)}</p>
+            </div>
+            {user?.role === 'teacher' && (
+              <button
+                onClick={() => shareLink(series.title, `/series/${series.id}`).catch((error) => console.error('Error sharing series:', error))}
+                className="inline-flex items-center px-4 py-2 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <Share2 className="w-5 h-5 mr-2" />
+                Partager
+              </button>
+            )}
+          </div>
+
+          {occurrences.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+              Aucun cours à venir dans cette série
+            </div>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {occurrences.map((classItem) => (
+                <ClassCard key={classItem.id} classData={classItem} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
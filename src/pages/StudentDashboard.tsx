@@ -1,17 +1,27 @@
 import React, { useEffect, useState } from 'react';
-import { isFuture, parseISO } from 'date-fns';
+import { useSearchParams } from 'react-router-dom';
+import { format, isFuture, parseISO } from 'date-fns';
 import { useStore } from '../store/useStore';
 import { ClassCard } from '../components/ClassCard';
 import { SchoolSelect } from '../components/SchoolSelect';
-import { ChevronDown } from 'lucide-react';
+import { formatClosurePeriod } from '../utils/dateUtils';
+import { ClassCalendar } from '../components/ClassCalendar';
+import { ClassFiltersBar } from '../components/ClassFiltersBar';
+import { ClassFilters, hasActiveFilters, matchesClassFilters, parseClassFilters, toSearchParams } from '../utils/filterUtils';
+import { isBookableWithPlan } from '../utils/bookingUtils';
+import { User } from '../types';
+import { CalendarDays, CalendarOff, ChevronDown, List } from 'lucide-react';
 
 const ITEMS_PER_PAGE = 10;
 
 export function StudentDashboard() {
-  const { user, classes, fetchClasses, isLoading: isStoreLoading } = useStore();
+  const { user, school, classes, fetchClasses, fetchSchoolTeachers, isLoading: isStoreLoading } = useStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [teachers, setTeachers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [visibleEnrolled, setVisibleEnrolled] = useState(ITEMS_PER_PAGE);
   const [visibleAvailable, setVisibleAvailable] = useState(ITEMS_PER_PAGE);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
 
   useEffect(() => {
     const loadClasses = async () => {
@@ -24,6 +34,21 @@ export function StudentDashboard() {
     loadClasses();
   }, [fetchClasses]);
 
+  useEffect(() => {
+    if (!user?.schoolId) return;
+    fetchSchoolTeachers()
+      .then(setTeachers)
+      .catch((error) => console.error('Error loading teachers:', error));
+  }, [fetchSchoolTeachers, user?.schoolId]);
+
+  const filters = parseClassFilters(searchParams);
+
+  const handleFiltersChange = (newFilters: ClassFilters) => {
+    // replace : chaque frappe dans la recherche ne doit pas créer une entrée d'historique
+    setSearchParams(toSearchParams(newFilters), { replace: true });
+    setVisibleAvailable(ITEMS_PER_PAGE);
+  };
+
   const futureClasses = classes
     .filter((c) => isFuture(parseISO(c.datetime)))
     .sort((a, b) => parseISO(a.datetime).getTime() - parseISO(b.datetime).getTime());
@@ -31,9 +56,15 @@ export function StudentDashboard() {
   const enrolledClasses = futureClasses.filter((c) => 
     c.enrolledStudents.includes(user?.id || ''));
   
+  // Les cours complets restent visibles pour pouvoir rejoindre la liste d'attente.
+  // Un cours annulé n'apparaît que chez ses inscrits.
   const availableClasses = futureClasses.filter((c) => 
-    !c.enrolledStudents.includes(user?.id || '') && 
-    c.enrolledStudents.length < c.maxStudents);
+    c.status !== 'cancelled' && !c.enrolledStudents.includes(user?.id || '') &&
+    matchesClassFilters(c, filters) &&
+    (!filters.bookableOnly || (!!user && isBookableWithPlan(user, c, classes))));
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingClosures = (school?.closures || []).filter((closure) => closure.endDate >= today);
 
   if (isLoading || isStoreLoading) {
     return (
@@ -56,61 +87,108 @@ export function StudentDashboard() {
 
   return (
     <div className="space-y-8">
-      <section>
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">Mes cours à venir</h2>
-        {enrolledClasses.length === 0 ? (
-          <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
-            Vous n'êtes inscrit(e) à aucun cours pour le moment
-          </div>
-        ) : (
-          <div className="space-y-6">
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {enrolledClasses.slice(0, visibleEnrolled).map((classItem) => (
-                <ClassCard key={classItem.id} classData={classItem} />
+      {upcomingClosures.length > 0 && (
+        <div className="flex items-start space-x-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <CalendarOff className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-amber-900">
+            <p className="font-medium">Fermetures à venir</p>
+            <ul className="mt-1 space-y-0.5">
+              {upcomingClosures.map((closure) => (
+                <li key={closure.id}>{closure.label} : l'école est fermée {formatClosurePeriod(closure)}</li>
               ))}
-            </div>
-            {enrolledClasses.length > visibleEnrolled && (
-              <div className="flex justify-center">
-                <button
-                  onClick={() => setVisibleEnrolled(prev => prev + ITEMS_PER_PAGE)}
-                  className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
-                >
-                  Voir plus
-                  <ChevronDown className="w-4 h-4 ml-1" />
-                </button>
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm bg-white">
+          <button
+            onClick={() => setView('list')}
+            className={`flex items-center px-3 py-1.5 ${view === 'list' ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+          >
+            <List className="w-4 h-4 mr-1" />
+            Liste
+          </button>
+          <button
+            onClick={() => setView('calendar')}
+            className={`flex items-center px-3 py-1.5 ${view === 'calendar' ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+          >
+            <CalendarDays className="w-4 h-4 mr-1" />
+            Calendrier
+          </button>
+        </div>
+      </div>
+
+      {view === 'calendar' ? (
+        <div className="space-y-4">
+          <ClassFiltersBar filters={filters} teachers={teachers} onChange={handleFiltersChange} />
+          <ClassCalendar classes={[...enrolledClasses, ...availableClasses]} />
+        </div>
+      ) : (
+        <>
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Mes cours à venir</h2>
+            {enrolledClasses.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+                Vous n'êtes inscrit(e) à aucun cours pour le moment
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {enrolledClasses.slice(0, visibleEnrolled).map((classItem) => (
+                    <ClassCard key={classItem.id} classData={classItem} />
+                  ))}
+                </div>
+                {enrolledClasses.length > visibleEnrolled && (
+                  <div className="flex justify-center">
+                    <button
+                      onClick={() => setVisibleEnrolled(prev => prev + ITEMS_PER_PAGE)}
+                      className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
+                    >
+                      Voir plus
+                      <ChevronDown className="w-4 h-4 ml-1" />
+                    </button>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
-      </section>
+          </section>
 
-      <section>
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">Cours disponibles</h2>
-        {availableClasses.length === 0 ? (
-          <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
-            Aucun cours disponible pour le moment
-          </div>
-        ) : (
-          <div className="space-y-6">
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {availableClasses.slice(0, visibleAvailable).map((classItem) => (
-                <ClassCard key={classItem.id} classData={classItem} />
-              ))}
+          <section>
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Cours disponibles</h2>
+            <div className="mb-6">
+              <ClassFiltersBar filters={filters} teachers={teachers} onChange={handleFiltersChange} />
             </div>
-            {availableClasses.length > visibleAvailable && (
-              <div className="flex justify-center">
-                <button
-                  onClick={() => setVisibleAvailable(prev => prev + ITEMS_PER_PAGE)}
-                  className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
-                >
-                  Voir plus
-                  <ChevronDown className="w-4 h-4 ml-1" />
-                </button>
+            {availableClasses.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+                {hasActiveFilters(filters)
+                  ? 'Aucun cours ne correspond à vos filtres'
+                  : 'Aucun cours disponible pour le moment'}
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {availableClasses.slice(0, visibleAvailable).map((classItem) => (
+                    <ClassCard key={classItem.id} classData={classItem} />
+                  ))}
+                </div>
+                {availableClasses.length > visibleAvailable && (
+                  <div className="flex justify-center">
+                    <button
+                      onClick={() => setVisibleAvailable(prev => prev + ITEMS_PER_PAGE)}
+                      className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
+                    >
+                      Voir plus
+                      <ChevronDown className="w-4 h-4 ml-1" />
+                    </button>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
-      </section>
+          </section>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
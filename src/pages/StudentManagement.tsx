@@ -1,9 +1,20 @@
 import React, { useEffect, useState } from 'react';
-import { format, parseISO, addMonths, addYears, isAfter } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useStore } from '../store/useStore';
-import { User, StudentCredit, StudentSubscription } from '../types';
-import { Loader2, CreditCard, Calendar, Infinity, User as UserIcon } from 'lucide-react';
+import { User, StudentCredit, StudentCreditPack, StudentSubscription, AttendanceStats } from '../types';
+import {
+  hasUnlimitedSubscription,
+  getActiveSubscription,
+  getSubscriptionFreeze,
+  getAvailableCredits,
+  isPackActive,
+  formatQuota,
+  DEFAULT_PACK_TEMPLATES,
+  DEFAULT_SUBSCRIPTION_PLANS
+} from '../utils/bookingUtils';
+import { Loader2, CreditCard, Calendar, Infinity, User as UserIcon, UserCheck, History, Ticket, PauseCircle } from 'lucide-react';
+import { CreditHistory } from '../components/CreditHistory';
 
 interface BadgeProps {
   variant: 'purple' | 'gray' | 'green';
@@ -25,11 +36,7 @@ function Badge({ variant, children }: BadgeProps) {
 }
 
 function CreditsBadge({ student }: { student: User }) {
-  const hasUnlimitedCredits = student.subscription && 
-                             student.subscription.type !== 'pay-as-you-go' && 
-                             isAfter(parseISO(student.subscription.endDate), new Date());
-
-  if (hasUnlimitedCredits) {
+  if (hasUnlimitedSubscription(student)) {
     return (
       <Badge variant="purple">
         <Infinity className="w-3 h-3 mr-1" />
@@ -38,51 +45,101 @@ function CreditsBadge({ student }: { student: User }) {
     );
   }
 
+  const availableCredits = getAvailableCredits(student);
+  const packs = [...(student.creditPacks || [])].sort(
+    (a, b) => parseISO(b.expiresAt).getTime() - parseISO(a.expiresAt).getTime()
+  );
+
   return (
-    <Badge variant={student.credits > 0 ? "purple" : "gray"}>
-      {student.credits || 0} crédit{(student.credits || 0) !== 1 ? 's' : ''}
-    </Badge>
+    <>
+      <Badge variant={availableCredits > 0 ? "purple" : "gray"}>
+        {availableCredits} crédit{availableCredits !== 1 ? 's' : ''}
+      </Badge>
+      {packs.map((pack) => {
+        const isActive = isPackActive(pack);
+        return (
+          <span
+            key={pack.id}
+            title={isActive ? undefined : `${pack.expiredCredits || pack.remaining} crédit(s) perdu(s)`}
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+              isActive
+                ? 'border-purple-200 text-purple-800'
+                : 'border-gray-200 text-gray-400 bg-gray-50'
+            }`}
+          >
+            <Ticket className="w-3 h-3 mr-1" />
+            {pack.name} · {isActive ? pack.remaining : 0}/{pack.size}
+            {isActive
+              ? ` · jusqu'au ${format(parseISO(pack.expiresAt), 'd MMM yyyy', { locale: fr })}`
+              : ` · expiré le ${format(parseISO(pack.expiresAt), 'd MMM yyyy', { locale: fr })}`}
+          </span>
+        );
+      })}
+    </>
   );
 }
 
 function SubscriptionBadge({ student }: { student: User }) {
-  if (!student.subscription) return null;
-
-  const subscriptionLabels = {
-    'monthly': 'Abonnement mensuel',
-    'quarterly': 'Abonnement trimestriel',
-    'yearly': 'Abonnement annuel',
-    'pay-as-you-go': 'À la carte'
-  };
+  const subscription = getActiveSubscription(student);
+  if (!subscription) return null;
 
-  const isActive = isAfter(parseISO(student.subscription.endDate), new Date());
-  
-  if (!isActive) return null;
-
-  const endDate = parseISO(student.subscription.endDate);
-  const formattedEndDate = student.subscription.type !== 'pay-as-you-go' 
-    ? ` (${format(endDate, 'MMMM yyyy', { locale: fr })})`
-    : '';
+  const endDate = parseISO(subscription.endDate);
   
   return (
     <div className="inline-flex items-center">
       <Badge variant="green">
-        {subscriptionLabels[student.subscription.type]}
+        {subscription.name}
+        {subscription.quota && ` · ${formatQuota(subscription.quota)}`}
       </Badge>
-      {formattedEndDate && (
-        <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">{formattedEndDate}</span>
-      )}
+      <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">
+        (jusqu'au {format(endDate, 'd MMMM yyyy', { locale: fr })})
+      </span>
     </div>
   );
 }
 
+function FreezeBadge({ student }: { student: User }) {
+  const freeze = getSubscriptionFreeze(student);
+  if (!freeze) return null;
+
+  return (
+    <Badge variant="gray">
+      <PauseCircle className="w-3 h-3 mr-1" />
+      Suspendu jusqu'au {format(parseISO(freeze.endDate), 'd MMMM', { locale: fr })}
+    </Badge>
+  );
+}
+
+function AttendanceBadge({ stats }: { stats?: AttendanceStats }) {
+  const total = stats ? stats.present + stats.late + stats.absent : 0;
+  if (!stats || total === 0) return null;
+
+  const attended = stats.present + stats.late;
+  const rate = Math.round((attended / total) * 100);
+
+  return (
+    <Badge variant={rate >= 80 ? 'green' : rate >= 50 ? 'purple' : 'gray'}>
+      <UserCheck className="w-3 h-3 mr-1" />
+      Assiduité {rate} % ({attended}/{total})
+    </Badge>
+  );
+}
+
 export function StudentManagement() {
-  const { school, fetchSchoolStudents, updateStudentCredits } = useStore();
+  const { school, fetchSchoolStudents, updateStudentCredits, freezeSubscription, fetchAttendanceStats } = useStore();
   const [students, setStudents] = useState<User[]>([]);
+  const [attendanceStats, setAttendanceStats] = useState<Record<string, AttendanceStats>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [selectedStudent, setSelectedStudent] = useState<string | null>(null);
   const [creditAmount, setCreditAmount] = useState<number>(1);
-  const [subscriptionType, setSubscriptionType] = useState<'monthly' | 'quarterly' | 'yearly' | 'pay-as-you-go'>('pay-as-you-go');
+  const [creditMode, setCreditMode] = useState<'pack' | StudentCredit['mode']>('pack');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [creditReason, setCreditReason] = useState('');
+  const [historyStudent, setHistoryStudent] = useState<User | null>(null);
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [freezeStart, setFreezeStart] = useState('');
+  const [freezeEnd, setFreezeEnd] = useState('');
+  const [freezeReason, setFreezeReason] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -90,8 +147,12 @@ export function StudentManagement() {
     const loadStudents = async () => {
       if (!school?.id) return;
       try {
-        const fetchedStudents = await fetchSchoolStudents(school.id);
+        const [fetchedStudents, fetchedStats] = await Promise.all([
+          fetchSchoolStudents(school.id),
+          fetchAttendanceStats(school.id),
+        ]);
         setStudents(fetchedStudents);
+        setAttendanceStats(fetchedStats);
       } catch (error) {
         console.error('Error fetching students:', error);
         setError("Erreur lors du chargement des élèves");
@@ -100,18 +161,22 @@ export function StudentManagement() {
       }
     };
     loadStudents();
-  }, [school?.id, fetchSchoolStudents]);
+  }, [school?.id, fetchSchoolStudents, fetchAttendanceStats]);
+
+  const packTemplates = school?.packTemplates?.length ? school.packTemplates : DEFAULT_PACK_TEMPLATES;
+  const selectedTemplate = packTemplates.find((template) => template.id === selectedTemplateId) || packTemplates[0];
 
   const handleAddCredits = async (studentId: string) => {
-    if (!creditAmount) return;
+    if (creditMode === 'pack' && !selectedTemplate) return;
+    if (creditMode === 'add' && !creditAmount) return;
     
     try {
       setIsUpdating(true);
       setError(null);
-      const credit: StudentCredit = {
-        type: 'credits',
-        amount: creditAmount,
-      };
+      const reason = creditReason.trim() || undefined;
+      const credit: StudentCredit | StudentCreditPack = creditMode === 'pack'
+        ? { type: 'pack', template: selectedTemplate, reason }
+        : { type: 'credits', mode: creditMode, amount: creditAmount, reason };
       await updateStudentCredits(studentId, credit);
       
       if (school) {
@@ -119,6 +184,7 @@ export function StudentManagement() {
         setStudents(updatedStudents);
       }
       setSelectedStudent(null);
+      setCreditReason('');
     } catch (error) {
       setError("Erreur lors de la mise à jour des crédits");
       console.error('Error updating credits:', error);
@@ -127,33 +193,16 @@ export function StudentManagement() {
     }
   };
 
+  const subscriptionPlans = school?.subscriptionPlans?.length ? school.subscriptionPlans : DEFAULT_SUBSCRIPTION_PLANS;
+
   const handleAddSubscription = async (studentId: string) => {
     try {
       setIsUpdating(true);
       setError(null);
-      const startDate = new Date();
-      let endDate: Date;
-      
-      switch (subscriptionType) {
-        case 'monthly':
-          endDate = addMonths(startDate, 1);
-          break;
-        case 'quarterly':
-          endDate = addMonths(startDate, 3);
-          break;
-        case 'yearly':
-          endDate = addYears(startDate, 1);
-          break;
-        case 'pay-as-you-go':
-          endDate = new Date(2099, 11, 31);
-          break;
-      }
 
       const subscription: StudentSubscription = {
         type: 'subscription',
-        plan: subscriptionType,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
+        plan: subscriptionPlans.find((plan) => plan.id === selectedPlanId) || null,
       };
       
       await updateStudentCredits(studentId, subscription);
@@ -171,6 +220,31 @@ export function StudentManagement() {
     }
   };
 
+  const handleFreezeSubscription = async (studentId: string) => {
+    if (!freezeStart || !freezeEnd) return;
+
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      await freezeSubscription(studentId, freezeStart, freezeEnd, freezeReason.trim() || undefined);
+
+      if (school) {
+        const updatedStudents = await fetchSchoolStudents(school.id);
+        setStudents(updatedStudents);
+      }
+      setSelectedStudent(null);
+      setFreezeStart('');
+      setFreezeEnd('');
+      setFreezeReason('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Erreur lors de la suspension de l'abonnement");
+      console.error('Error freezing subscription:', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -182,6 +256,10 @@ export function StudentManagement() {
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-900">Gestion des élèves</h2>
+
+      {historyStudent && (
+        <CreditHistory student={historyStudent} onClose={() => setHistoryStudent(null)} />
+      )}
       
       {error && (
         <div className="rounded-md bg-red-50 p-4">
@@ -211,11 +289,20 @@ export function StudentManagement() {
                   <div className="mt-2 flex items-center space-x-2 flex-wrap">
                     <CreditsBadge student={student} />
                     <SubscriptionBadge student={student} />
+                    <FreezeBadge student={student} />
+                    <AttendanceBadge stats={attendanceStats[student.id]} />
                   </div>
                 </div>
               </div>
               
               <div className="flex space-x-3">
+                <button
+                  onClick={() => setHistoryStudent(student)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  Historique
+                </button>
                 <button
                   onClick={() => setSelectedStudent(selectedStudent === student.id ? null : student.id)}
                   className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
@@ -228,45 +315,75 @@ export function StudentManagement() {
             {selectedStudent === student.id && (
               <div className="mt-4 space-y-4">
                 <div className="bg-gray-50 p-4 rounded-md space-y-4">
-                  {subscriptionType === 'pay-as-you-go' && (
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-900 mb-2">Mettre à jour les crédits</h4>
-                      <div className="flex items-center space-x-3">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Mettre à jour les crédits</h4>
+                    <div className="flex items-center space-x-3 flex-wrap gap-y-2">
+                      <select
+                        value={creditMode}
+                        onChange={(e) => setCreditMode(e.target.value as 'pack' | StudentCredit['mode'])}
+                        className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                      >
+                        <option value="pack">Attribuer un carnet</option>
+                        <option value="add">Ajouter des crédits</option>
+                        <option value="set">Définir le solde à</option>
+                      </select>
+                      {creditMode === 'pack' ? (
+                        <select
+                          value={selectedTemplate?.id}
+                          onChange={(e) => setSelectedTemplateId(e.target.value)}
+                          className="block w-56 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                        >
+                          {packTemplates.map((template) => (
+                            <option key={template.id} value={template.id}>
+                              {template.name} ({template.size} cours, {template.validityMonths} mois)
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
                         <input
                           type="number"
-                          min="1"
+                          min={creditMode === 'add' ? 1 : 0}
                           value={creditAmount}
                           onChange={(e) => setCreditAmount(parseInt(e.target.value) || 0)}
                           className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
                         />
-                        <button
-                          onClick={() => handleAddCredits(student.id)}
-                          disabled={isUpdating || creditAmount < 1}
-                          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          {isUpdating ? (
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                          ) : (
-                            <CreditCard className="w-4 h-4 mr-2" />
-                          )}
-                          Mettre à jour les crédits
-                        </button>
-                      </div>
+                      )}
+                      <input
+                        type="text"
+                        value={creditReason}
+                        onChange={(e) => setCreditReason(e.target.value)}
+                        placeholder="Motif (optionnel)"
+                        className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                      />
+                      <button
+                        onClick={() => handleAddCredits(student.id)}
+                        disabled={isUpdating || (creditMode !== 'pack' && creditAmount < (creditMode === 'add' ? 1 : 0))}
+                        className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isUpdating ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <CreditCard className="w-4 h-4 mr-2" />
+                        )}
+                        Mettre à jour les crédits
+                      </button>
                     </div>
-                  )}
+                  </div>
 
                   <div>
                     <h4 className="text-sm font-medium text-gray-900 mb-2">Ajouter un abonnement</h4>
                     <div className="flex items-center space-x-3">
                       <select
-                        value={subscriptionType}
-                        onChange={(e) => setSubscriptionType(e.target.value as any)}
-                        className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                        value={selectedPlanId}
+                        onChange={(e) => setSelectedPlanId(e.target.value)}
+                        className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
                       >
-                        <option value="pay-as-you-go">À la carte</option>
-                        <option value="monthly">Mensuel</option>
-                        <option value="quarterly">Trimestriel</option>
-                        <option value="yearly">Annuel</option>
+                        <option value="">À la carte (sans abonnement)</option>
+                        {subscriptionPlans.map((plan) => (
+                          <option key={plan.id} value={plan.id}>
+                            {plan.name} ({plan.durationMonths} mois{plan.quota ? `, ${formatQuota(plan.quota)}` : ', illimité'})
+                          </option>
+                        ))}
                       </select>
                       <button
                         onClick={() => handleAddSubscription(student.id)}
@@ -282,6 +399,50 @@ export function StudentManagement() {
                       </button>
                     </div>
                   </div>
+
+                  {student.subscription && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Suspendre l'abonnement</h4>
+                      <p className="text-sm text-gray-500 mb-2">
+                        Aucune réservation n'est possible pendant la suspension ; sa durée est ajoutée à la fin de l'abonnement.
+                      </p>
+                      <div className="flex items-center space-x-3 flex-wrap gap-y-2">
+                        <input
+                          type="date"
+                          value={freezeStart}
+                          onChange={(e) => setFreezeStart(e.target.value)}
+                          className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                        />
+                        <span className="text-sm text-gray-500">au</span>
+                        <input
+                          type="date"
+                          value={freezeEnd}
+                          min={freezeStart}
+                          onChange={(e) => setFreezeEnd(e.target.value)}
+                          className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={freezeReason}
+                          onChange={(e) => setFreezeReason(e.target.value)}
+                          placeholder="Motif (optionnel)"
+                          className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm"
+                        />
+                        <button
+                          onClick={() => handleFreezeSubscription(student.id)}
+                          disabled={isUpdating || !freezeStart || !freezeEnd}
+                          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isUpdating ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <PauseCircle className="w-4 h-4 mr-2" />
+                          )}
+                          Suspendre
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
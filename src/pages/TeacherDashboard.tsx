@@ -1,13 +1,16 @@
 import React, { useEffect } from 'react';
-import { isFuture, parseISO } from 'date-fns';
-import { Plus, ChevronDown, Users } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { isFuture, isPast, parseISO } from 'date-fns';
+import { Plus, ChevronDown, Users, List, CalendarDays } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { ClassCard } from '../components/ClassCard';
 import { ClassForm } from '../components/ClassForm';
+import { ClassCalendar } from '../components/ClassCalendar';
 import { SchoolForm } from '../components/SchoolForm';
 import { SchoolSelect } from '../components/SchoolSelect';
-import { StudentManagement } from './StudentManagement';
-import { Class, ClassFormData } from '../types';
+import { ScheduleConflictDialog } from '../components/ScheduleConflictDialog';
+import { Class, ClassFormData, ScheduleConflict } from '../types';
+import { ScheduleConflictError } from '../utils/scheduleUtils';
 
 const ITEMS_PER_PAGE = 10;
 
@@ -15,9 +18,11 @@ export function TeacherDashboard() {
   const { user, classes, addClass, fetchClasses } = useStore();
   const [showClassForm, setShowClassForm] = React.useState(false);
   const [showSchoolForm, setShowSchoolForm] = React.useState(false);
-  const [showStudentManagement, setShowStudentManagement] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(true);
   const [visibleClasses, setVisibleClasses] = React.useState(ITEMS_PER_PAGE);
+  const [view, setView] = React.useState<'list' | 'calendar'>('list');
+  const [pendingClass, setPendingClass] = React.useState<{ data: ClassFormData; conflicts: ScheduleConflict[] } | null>(null);
+  const [isSavingPending, setIsSavingPending] = React.useState(false);
 
   useEffect(() => {
     const loadClasses = async () => {
@@ -30,29 +35,51 @@ export function TeacherDashboard() {
     loadClasses();
   }, [fetchClasses]);
 
+  // Le professeur voit ses cours et ceux où il remplace un collègue
+  const isMyClass = (c: Class) => c.teacherId === user?.id || c.substituteTeacherId === user?.id;
+
   const teacherClasses = classes
-    .filter((c) => c.teacherId === user?.id && isFuture(parseISO(c.datetime)))
+    .filter((c) => isMyClass(c) && isFuture(parseISO(c.datetime)))
     .sort((a, b) => parseISO(a.datetime).getTime() - parseISO(b.datetime).getTime());
 
-  const handleCreateClass = async (data: ClassFormData) => {
+  const recentClasses = classes
+    .filter((c) => isMyClass(c) && isPast(parseISO(c.datetime)) && c.enrolledStudents.length > 0)
+    .sort((a, b) => parseISO(b.datetime).getTime() - parseISO(a.datetime).getTime());
+
+  const handleCreateClass = async (data: ClassFormData, allowConflicts = false) => {
     if (!user?.schoolId) return;
     
     try {
+      const { recurrence, ...classData } = data;
       const newClass: Class = {
         id: crypto.randomUUID(),
         teacherId: user.id,
         schoolId: user.schoolId,
         enrolledStudents: [],
-        ...data,
+        ...classData,
       };
       
-      await addClass(newClass);
+      await addClass(newClass, recurrence, allowConflicts);
       setShowClassForm(false);
+      setPendingClass(null);
     } catch (error) {
+      if (error instanceof ScheduleConflictError) {
+        setPendingClass({ data, conflicts: error.conflicts });
+        return;
+      }
       console.error('Error creating class:', error);
+      alert(error instanceof Error ? error.message : "Une erreur s'est produite lors de la création du cours");
     }
   };
 
+  const handleConfirmConflicts = async () => {
+    if (!pendingClass) return;
+
+    setIsSavingPending(true);
+    await handleCreateClass(pendingClass.data, true);
+    setIsSavingPending(false);
+  };
+
   const handleCreateSchool = async (data: any) => {
     try {
       await useStore.getState().createSchool({
@@ -100,34 +127,34 @@ export function TeacherDashboard() {
     );
   }
 
-  if (showStudentManagement) {
-    return (
-      <div>
-        <div className="mb-6">
-          <button
-            onClick={() => setShowStudentManagement(false)}
-            className="text-sm text-purple-600 hover:text-purple-700"
-          >
-            ← Retour aux cours
-          </button>
-        </div>
-        <StudentManagement />
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Mes cours sur l'année à venir</h2>
         <div className="flex space-x-4">
-          <button
-            onClick={() => setShowStudentManagement(true)}
+          <div className="flex rounded-md border border-gray-300 overflow-hidden bg-white">
+            <button
+              onClick={() => setView('list')}
+              className={`px-3 ${view === 'list' ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              title="Liste"
+            >
+              <List className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`px-3 ${view === 'calendar' ? 'bg-purple-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              title="Calendrier"
+            >
+              <CalendarDays className="w-5 h-5" />
+            </button>
+          </div>
+          <Link
+            to="/teacher/students"
             className="inline-flex items-center px-4 py-2 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
           >
             <Users className="w-5 h-5 mr-2" />
             Gérer les élèves
-          </button>
+          </Link>
           <button
             onClick={() => setShowClassForm(!showClassForm)}
             className="inline-flex items-center px-4 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700 transition-colors"
@@ -138,36 +165,62 @@ export function TeacherDashboard() {
         </div>
       </div>
 
+      {pendingClass && (
+        <ScheduleConflictDialog
+          conflicts={pendingClass.conflicts}
+          onConfirm={handleConfirmConflicts}
+          onClose={() => setPendingClass(null)}
+          isLoading={isSavingPending}
+        />
+      )}
+
       {showClassForm && (
         <div className="bg-white rounded-lg shadow-md p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Créer un nouveau cours</h3>
-          <ClassForm onSubmit={handleCreateClass} />
+          <ClassForm onSubmit={(data) => handleCreateClass(data)} />
         </div>
       )}
 
-      {teacherClasses.length === 0 ? (
-        <div className="text-center py-12 bg-white rounded-lg shadow-sm">
-          <p className="text-gray-500">Vous n'avez pas encore de cours programmés</p>
-        </div>
+      {view === 'calendar' ? (
+        <ClassCalendar classes={classes.filter(isMyClass)} editable />
       ) : (
-        <div className="space-y-6">
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {teacherClasses.slice(0, visibleClasses).map((classItem) => (
-              <ClassCard key={classItem.id} classData={classItem} />
-            ))}
-          </div>
-          {teacherClasses.length > visibleClasses && (
-            <div className="flex justify-center">
-              <button
-                onClick={() => setVisibleClasses(prev => prev + ITEMS_PER_PAGE)}
-                className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
-              >
-                Voir plus
-                <ChevronDown className="w-4 h-4 ml-1" />
-              </button>
+        <>
+          {recentClasses.length > 0 && (
+            <section className="space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">Cours terminés récemment : faire l'appel</h3>
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {recentClasses.map((classItem) => (
+                  <ClassCard key={classItem.id} classData={classItem} />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {teacherClasses.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-lg shadow-sm">
+              <p className="text-gray-500">Vous n'avez pas encore de cours programmés</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {teacherClasses.slice(0, visibleClasses).map((classItem) => (
+                  <ClassCard key={classItem.id} classData={classItem} />
+                ))}
+              </div>
+              {teacherClasses.length > visibleClasses && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={() => setVisibleClasses(prev => prev + ITEMS_PER_PAGE)}
+                    className="flex items-center px-4 py-2 text-sm text-purple-600 hover:text-purple-700"
+                  >
+                    Voir plus
+                    <ChevronDown className="w-4 h-4 ml-1" />
+                  </button>
+                </div>
+              )}
             </div>
           )}
-        </div>
+        </>
       )}
     </div>
   );
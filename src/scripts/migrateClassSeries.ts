@@ -0,0 +1,198 @@
+// Migration ponctuelle vers les documents de série (collection series).
+// Les occurrences d'une série partageaient un baseId, sauf la première, créée avec baseId: null :
+// le script la rattache à sa série, crée le document ClassSeries et remplace baseId par seriesId.
+// Les jours de la semaine sont calculés dans le fuseau de l'école (Europe/Paris), imposé par le script npm :
+// un cours proche de minuit ne tombe pas le même jour dans le fuseau de la machine qui exécute la migration.
+//
+//   npm run migrate-class-series                (FIRESTORE_EMULATOR_HOST=localhost:8080 pour l'émulateur)
+//   npm run migrate-class-series -- --dry-run
+import {
+  connectFirestoreEmulator,
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  deleteField,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { addDays, addMinutes, addYears, differenceInHours, isBefore, parseISO, startOfDay, subWeeks } from 'date-fns';
+import { db } from '../config/firebase';
+import { Class, ClassSeries } from '../types';
+import { generateOccurrences } from '../utils/dateUtils';
+
+const BATCH_SIZE = 500;
+const SCHOOL_TIME_ZONE = 'Europe/Paris';
+const dryRun = process.argv.includes('--dry-run');
+
+if (process.env.TZ !== SCHOOL_TIME_ZONE) {
+  console.error(`❌ Lancez la migration avec npm run migrate-class-series : elle doit tourner dans le fuseau ${SCHOOL_TIME_ZONE}`);
+  process.exit(1);
+}
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+type Write =
+  | { type: 'set'; ref: DocumentReference; data: DocumentData }
+  | { type: 'update'; ref: DocumentReference; data: DocumentData };
+
+async function commitInChunks(writes: Write[]) {
+  for (let index = 0; index < writes.length; index += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(index, index + BATCH_SIZE).forEach((write) => {
+      if (write.type === 'set') {
+        batch.set(write.ref, write.data);
+      } else {
+        batch.update(write.ref, write.data);
+      }
+    });
+    await batch.commit();
+  }
+}
+
+// Les anciennes séries avaient un an de cours créés d'avance : elles continuent ensuite sur l'horizon glissant.
+// Une série dont le dernier cours précède cette année complète a été arrêtée ("tous les prochains cours"
+// supprimés) : elle s'arrête le lendemain de son dernier cours et n'est jamais prolongée.
+function buildSeries(id: string, occurrences: Class[]): ClassSeries {
+  const first = occurrences[0];
+  const last = occurrences[occurrences.length - 1];
+  const startDate = parseISO(first.datetime);
+  const lastDate = parseISO(last.datetime);
+  const endedEarly = isBefore(lastDate, subWeeks(addYears(startDate, 1), 1));
+
+  return {
+    id,
+    schoolId: first.schoolId,
+    teacherId: first.teacherId,
+    title: first.title,
+    duration: first.duration,
+    maxStudents: first.maxStudents,
+    level: first.level,
+    ...(first.description && { description: first.description }),
+    rule: {
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [...new Set(occurrences.map((occurrence) => parseISO(occurrence.datetime).getDay()))],
+    },
+    startDate: first.datetime,
+    endDate: endedEarly ? startOfDay(addDays(lastDate, 1)).toISOString() : null,
+    materializedUntil: last.datetime,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Chaque cours existant doit être une date de la règle, sinon extendSeries prolongerait la série au mauvais jour
+// ou à la mauvaise heure. Les cours supprimés un par un laissent simplement des dates de la règle sans cours.
+function reproducesOccurrences(series: ClassSeries, occurrences: Class[]): boolean {
+  const lastDate = parseISO(occurrences[occurrences.length - 1].datetime);
+  const expected = new Set(
+    generateOccurrences(parseISO(series.startDate), series.rule, addMinutes(lastDate, 1)).map((date) => date.getTime())
+  );
+  return occurrences.every((occurrence) => expected.has(parseISO(occurrence.datetime).getTime()));
+}
+
+// La première occurrence précède d'une semaine le premier cours du groupe (à une heure près en cas de changement d'heure)
+function isFirstOccurrenceOf(orphan: Class, group: Class[]): boolean {
+  const first = group[0];
+  return first.schoolId === orphan.schoolId &&
+    first.teacherId === orphan.teacherId &&
+    first.title === orphan.title &&
+    Math.abs(differenceInHours(parseISO(first.datetime), parseISO(orphan.datetime)) - 7 * 24) <= 1;
+}
+
+async function migrateClassSeries() {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'classes'), where('isRecurring', '==', true)));
+    const classes = snapshot.docs
+      .map((classDoc) => ({ ...classDoc.data(), id: classDoc.id }) as Class)
+      .filter((classData) => !classData.seriesId)
+      .sort((a, b) => a.datetime.localeCompare(b.datetime));
+
+    const groups = new Map<string, Class[]>();
+    const orphans: Class[] = [];
+
+    classes.forEach((classData) => {
+      if (classData.baseId) {
+        groups.set(classData.baseId, [...(groups.get(classData.baseId) || []), classData]);
+      } else {
+        orphans.push(classData);
+      }
+    });
+
+    const writes: Write[] = [];
+    let repairedOrphans = 0;
+    let endedSeries = 0;
+    const skippedSeries: string[] = [];
+
+    const migrateGroup = (seriesId: string, occurrences: Class[]): boolean => {
+      const series = buildSeries(seriesId, occurrences);
+      if (!reproducesOccurrences(series, occurrences)) {
+        skippedSeries.push(seriesId);
+        return false;
+      }
+      if (series.endDate) endedSeries++;
+
+      writes.push({ type: 'set', ref: doc(db, 'series', seriesId), data: series });
+      occurrences.forEach((occurrence) => {
+        writes.push({
+          type: 'update',
+          ref: doc(db, 'classes', occurrence.id),
+          data: { seriesId, baseId: deleteField() },
+        });
+      });
+      return true;
+    };
+
+    groups.forEach((group, baseId) => {
+      const orphanIndex = orphans.findIndex((orphan) => isFirstOccurrenceOf(orphan, group));
+      const occurrences = orphanIndex >= 0 ? [orphans[orphanIndex], ...group] : group;
+
+      // Une première occurrence rattachée à une série ignorée n'est pas non plus transformée en cours simple
+      if (orphanIndex >= 0) {
+        orphans.splice(orphanIndex, 1);
+      }
+
+      // L'ancien baseId devient l'identifiant de la série
+      if (migrateGroup(baseId, occurrences) && orphanIndex >= 0) {
+        repairedOrphans++;
+      }
+    });
+
+    // Cours récurrents dont les occurrences suivantes ont toutes été supprimées : ils deviennent des cours simples
+    orphans.forEach((orphan) => {
+      writes.push({
+        type: 'update',
+        ref: doc(db, 'classes', orphan.id),
+        data: { isRecurring: false, baseId: deleteField() },
+      });
+    });
+
+    // Ces séries gardent leur baseId : leurs cours sont à corriger à la main avant de relancer la migration
+    skippedSeries.forEach((seriesId) => {
+      console.warn(`⚠️ Série ${seriesId} ignorée : sa règle ne reproduit pas ses cours existants`);
+    });
+
+    console.log(
+      `${groups.size - skippedSeries.length} série(s) à créer dont ${endedSeries} arrêtée(s), ${repairedOrphans} première(s) occurrence(s) rattachée(s), ` +
+      `${orphans.length} cours isolé(s), ` +
+      `${writes.length} écriture(s)${dryRun ? ' (simulation)' : ''}`
+    );
+
+    if (!dryRun) {
+      await commitInChunks(writes);
+    }
+
+    console.log('✅ Migration des séries terminée');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Erreur lors de la migration des séries:', error);
+    process.exit(1);
+  }
+}
+
+migrateClassSeries();
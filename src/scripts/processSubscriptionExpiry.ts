@@ -0,0 +1,163 @@
+// Traitement quotidien des abonnements : rappel 7 jours avant l'échéance, puis à l'échéance
+// désinscription des cours futurs ou signalement "à régulariser" selon le choix de l'école.
+//
+//   npm run process-subscriptions                  (à planifier une fois par jour, par exemple via cron)
+//   npm run process-subscriptions -- --dry-run     (affiche les actions sans rien écrire)
+//   npm run process-subscriptions -- --date=2025-01-31
+//
+// Avec FIRESTORE_EMULATOR_HOST=localhost:8080, le script travaille sur l'émulateur Firestore.
+import {
+  connectFirestoreEmulator,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  arrayRemove,
+  arrayUnion,
+  deleteField
+} from 'firebase/firestore';
+import { addDays, format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { db } from '../config/firebase';
+import { promoteFromWaitlist } from '../store/useStore';
+import { Class, School, SubscriptionExpiryAction, User, UserSubscription } from '../types';
+import {
+  getSubscriptionExpiryStatus,
+  DEFAULT_SUBSCRIPTION_EXPIRY_ACTION,
+  SUBSCRIPTION_REMINDER_DAYS
+} from '../utils/bookingUtils';
+
+const dryRun = process.argv.includes('--dry-run');
+const dateArg = process.argv.find((arg) => arg.startsWith('--date='));
+const now = dateArg ? parseISO(dateArg.slice('--date='.length)) : new Date();
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+const schools = new Map<string, School | null>();
+
+async function getSchool(schoolId: string): Promise<School | null> {
+  if (!schools.has(schoolId)) {
+    const schoolDoc = await getDoc(doc(db, 'schools', schoolId));
+    schools.set(schoolId, schoolDoc.exists() ? { id: schoolDoc.id, ...schoolDoc.data() } as School : null);
+  }
+  return schools.get(schoolId)!;
+}
+
+async function sendReminder(student: User, subscription: UserSubscription) {
+  const endDate = format(parseISO(subscription.endDate), 'd MMMM yyyy', { locale: fr });
+  console.log(`🔔 ${student.name} : ${subscription.name} expire le ${endDate}`);
+  if (dryRun) return;
+
+  const batch = writeBatch(db);
+  batch.set(doc(collection(db, 'notifications')), {
+    userId: student.id,
+    ...(student.schoolId && { schoolId: student.schoolId }),
+    type: 'subscription-expiring',
+    message: `Votre abonnement "${subscription.name}" expire le ${endDate}. Pensez à le renouveler auprès de votre professeur.`,
+    read: false,
+    createdAt: now.toISOString(),
+  });
+  batch.update(doc(db, 'users', student.id), {
+    'subscription.expiryReminderSentFor': subscription.endDate,
+  });
+  await batch.commit();
+}
+
+async function expireSubscription(student: User, subscription: UserSubscription) {
+  const classesQuery = query(
+    collection(db, 'classes'),
+    where('enrolledStudents', 'array-contains', student.id),
+    where('datetime', '>=', subscription.endDate)
+  );
+  const snapshot = await getDocs(classesQuery);
+
+  // Les cours payés en crédits restent réservés : seuls ceux couverts par l'abonnement sont concernés
+  const coveredDocs = snapshot.docs.filter((classDoc) => {
+    const classData = classDoc.data() as Class;
+    return classData.status !== 'cancelled' && !classData.paidWithCredits?.includes(student.id);
+  });
+
+  const schoolId = student.schoolId || (coveredDocs[0]?.data() as Class | undefined)?.schoolId;
+  const school = schoolId ? await getSchool(schoolId) : null;
+  const action: SubscriptionExpiryAction = school?.subscriptionExpiryAction || DEFAULT_SUBSCRIPTION_EXPIRY_ACTION;
+
+  console.log(
+    `⌛ ${student.name} : ${subscription.name} expiré, ${coveredDocs.length} cours ` +
+    (action === 'unenroll' ? 'désinscrit(s)' : 'à régulariser')
+  );
+  if (dryRun) return;
+
+  const batch = writeBatch(db);
+
+  coveredDocs.forEach((classDoc) => {
+    batch.update(classDoc.ref, action === 'unenroll'
+      ? { enrolledStudents: arrayRemove(student.id), [`poleAssignments.${student.id}`]: deleteField() }
+      : { toRegularize: arrayUnion(student.id) });
+  });
+
+  const consequence = coveredDocs.length === 0
+    ? ''
+    : action === 'unenroll'
+      ? ` Vous avez été désinscrit(e) de ${coveredDocs.length} cours à venir.`
+      : ` Vos ${coveredDocs.length} réservation(s) à venir sont à régulariser auprès de votre professeur.`;
+
+  batch.set(doc(collection(db, 'notifications')), {
+    userId: student.id,
+    ...(schoolId && { schoolId }),
+    type: 'subscription-expired',
+    message: `Votre abonnement "${subscription.name}" est arrivé à échéance.${consequence}`,
+    read: false,
+    createdAt: now.toISOString(),
+  });
+  batch.update(doc(db, 'users', student.id), {
+    'subscription.expiryProcessedFor': subscription.endDate,
+  });
+  await batch.commit();
+
+  // Les places libérées reviennent à la liste d'attente, comme pour une désinscription depuis l'application
+  if (action === 'unenroll') {
+    for (const classDoc of coveredDocs) {
+      await promoteFromWaitlist(classDoc.ref, (classDoc.data() as Class).teacherId);
+    }
+  }
+}
+
+async function processSubscriptionExpiry() {
+  try {
+    console.log(`Traitement des abonnements au ${format(now, 'd MMMM yyyy HH:mm', { locale: fr })}${dryRun ? ' (simulation)' : ''}`);
+
+    const usersQuery = query(
+      collection(db, 'users'),
+      where('subscription.endDate', '<=', addDays(now, SUBSCRIPTION_REMINDER_DAYS).toISOString())
+    );
+    const snapshot = await getDocs(usersQuery);
+
+    for (const userDoc of snapshot.docs) {
+      const student = { id: userDoc.id, ...userDoc.data() } as User;
+      const subscription = student.subscription;
+      if (!subscription) continue;
+
+      const status = getSubscriptionExpiryStatus(subscription, now);
+
+      if (status === 'expiring' && subscription.expiryReminderSentFor !== subscription.endDate) {
+        await sendReminder(student, subscription);
+      } else if (status === 'expired' && subscription.expiryProcessedFor !== subscription.endDate) {
+        await expireSubscription(student, subscription);
+      }
+    }
+
+    console.log('✅ Traitement des abonnements terminé');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Erreur lors du traitement des abonnements:', error);
+    process.exit(1);
+  }
+}
+
+processSubscriptionExpiry();
@@ -1,7 +1,51 @@
 import { create } from 'zustand';
-import { User, Class, School, StudentCredit, StudentSubscription } from '../types';
-import { parseISO, addYears, addMonths } from 'date-fns';
-import { generateRecurringDates } from '../utils/dateUtils';
+import {
+  User,
+  Class,
+  School,
+  StudentCredit,
+  StudentCreditPack,
+  StudentSubscription,
+  UserSubscription,
+  SubscriptionFreeze,
+  CreditPack,
+  EnrollmentReport,
+  WaitlistEntry,
+  AttendanceStatus,
+  AttendanceStats,
+  CreditLedgerEntry,
+  AppNotification,
+  ClassCancellation,
+  SeriesEditScope,
+  ClassSeries,
+  RecurrenceRule,
+  Room
+} from '../types';
+import { parseISO, format, addMonths, addDays, addWeeks, addMinutes, subDays, subMinutes, startOfDay, endOfDay, isBefore, setHours, setMinutes } from 'date-fns';
+import { generateOccurrences, shiftOccurrence, getClosureOn, SERIES_HORIZON_WEEKS } from '../utils/dateUtils';
+import { fr } from 'date-fns/locale';
+import {
+  claimSubscriptionSlot,
+  getQuotaPeriodStart,
+  getQuotaPeriodEnd,
+  insufficientCreditsMessage,
+  getCancellationCredits,
+  getAvailableCredits,
+  expirePacks,
+  consumeFromPacks,
+  refundToPacks,
+  correctCredits,
+  wasPaidWithCredits,
+  getOccurrenceTeacherId,
+  getMaxStudentsLimit,
+  getRoomPoles,
+  getTakenPoles,
+  getSubscriptionFreeze,
+  getFreezeDays,
+  formatFreezePeriod,
+  DEFAULT_CANCELLATION_POLICY
+} from '../utils/bookingUtils';
+import { findScheduleConflicts, ScheduleConflictError, ScheduleSlot, MAX_CLASS_DURATION } from '../utils/scheduleUtils';
 import { 
   collection, 
   doc,
@@ -14,7 +58,17 @@ import {
   deleteDoc,
   updateDoc,
   arrayUnion,
-  arrayRemove
+  arrayRemove,
+  increment,
+  runTransaction,
+  deleteField,
+  onSnapshot,
+  orderBy,
+  limit,
+  DocumentReference,
+  DocumentData,
+  UpdateData,
+  Unsubscribe
 } from 'firebase/firestore';
 import { 
   createUserWithEmailAndPassword,
@@ -32,18 +86,32 @@ interface Store {
   user: User | null;
   school: School | null;
   classes: Class[];
+  notifications: AppNotification[];
   isLoading: boolean;
   setUser: (user: User | null) => void;
   setSchool: (school: School | null) => void;
   signUp: (email: string, password: string, name: string, role: 'student' | 'teacher') => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
-  addClass: (newClass: Class) => Promise<void>;
-  updateClass: (classId: string, updatedClass: Partial<Class>, updateRecurring: boolean) => Promise<void>;
+  addClass: (newClass: Class, recurrence?: RecurrenceRule, allowConflicts?: boolean) => Promise<void>;
+  updateClass: (classId: string, updatedClass: Partial<Class>, scope: SeriesEditScope, allowConflicts?: boolean) => Promise<void>;
   deleteClass: (classId: string, deleteRecurring: boolean) => Promise<void>;
-  enrollInClass: (classId: string, userId: string, enrollAll: boolean) => Promise<void>;
+  cancelClass: (classId: string, reason: string) => Promise<void>;
+  assignSubstitute: (classId: string, substituteTeacherId: string | null, until?: string, allowConflicts?: boolean) => Promise<number>;
+  cancelClassesInRange: (startDate: string, endDate: string, reason: string) => Promise<number>;
+  enrollInClass: (classId: string, userId: string, enrollAll: boolean, pole?: number | null) => Promise<EnrollmentReport>;
   unenrollFromClass: (classId: string, userId: string, unenrollAll: boolean) => Promise<void>;
+  joinWaitlist: (classId: string, userId: string) => Promise<void>;
+  leaveWaitlist: (classId: string, userId: string) => Promise<void>;
   fetchClasses: () => Promise<void>;
+  fetchClass: (classId: string) => Promise<Class | null>;
+  fetchSeries: (seriesId: string) => Promise<ClassSeries | null>;
+  markAttendance: (classId: string, studentId: string, status: AttendanceStatus) => Promise<void>;
+  assignPole: (classId: string, studentId: string, pole: number | null) => Promise<void>;
+  fetchAttendanceStats: (schoolId: string) => Promise<Record<string, AttendanceStats>>;
+  clearRegularization: (classId: string, studentId: string) => Promise<void>;
+  fetchNotifications: () => Promise<void>;
+  markNotificationsRead: () => Promise<void>;
   fetchSchools: () => Promise<School[]>;
   fetchCurrentSchool: () => Promise<void>;
   createSchool: (schoolData: Omit<School, 'id' | 'teacherIds'>) => Promise<void>;
@@ -57,15 +125,524 @@ interface Store {
     currentPassword?: string;
     newPassword?: string;
   }) => Promise<void>;
-  updateStudentCredits: (studentId: string, update: StudentCredit | StudentSubscription) => Promise<void>;
+  updateStudentCredits: (studentId: string, update: StudentCredit | StudentCreditPack | StudentSubscription) => Promise<void>;
+  freezeSubscription: (studentId: string, startDate: string, endDate: string, reason?: string) => Promise<void>;
+  fetchCreditLedger: (studentId: string) => Promise<CreditLedgerEntry[]>;
   fetchSchoolStudents: (schoolId: string) => Promise<User[]>;
+  fetchSchoolTeachers: () => Promise<User[]>;
   fetchUserById: (userId: string) => Promise<User | null>;
 }
 
+const ATTENDANCE_WINDOW_DAYS = 7;
+
+// Champs d'un cours repris du modèle de sa série
+const SERIES_TEMPLATE_FIELDS = ['title', 'teacherId', 'duration', 'maxStudents', 'level', 'description', 'roomId'] as const;
+
+function pickSeriesTemplate(source: Partial<Class>): Partial<ClassSeries> {
+  return Object.fromEntries(
+    SERIES_TEMPLATE_FIELDS
+      .filter((field) => source[field] !== undefined)
+      .map((field) => [field, source[field]])
+  );
+}
+
+// Cours créés par transaction lors de l'extension d'une série (Firestore limite une transaction à 500 écritures)
+const MATERIALIZE_CHUNK_SIZE = 400;
+
+// Crée les cours d'une série jusqu'à l'horizon glissant, par lots. La routine est idempotente : chaque lot
+// relit materializedUntil dans sa transaction et l'identifiant d'un cours est dérivé de sa date.
+async function extendSeries(seriesId: string, horizon: Date = addWeeks(new Date(), SERIES_HORIZON_WEEKS)): Promise<void> {
+  const seriesRef = doc(db, 'series', seriesId);
+  let created = MATERIALIZE_CHUNK_SIZE;
+
+  while (created === MATERIALIZE_CHUNK_SIZE) {
+    created = await runTransaction(db, async (transaction) => {
+      const seriesDoc = await transaction.get(seriesRef);
+      if (!seriesDoc.exists()) return 0;
+
+      const series = seriesDoc.data() as ClassSeries;
+      const schoolDoc = await transaction.get(doc(db, 'schools', series.schoolId));
+      const closures = schoolDoc.exists() ? (schoolDoc.data() as School).closures : [];
+      const until = series.endDate && isBefore(parseISO(series.endDate), horizon) ? parseISO(series.endDate) : horizon;
+      // Une série restée longtemps sans extension ne rattrape pas les dates déjà passées
+      const materializedUntil = parseISO(series.materializedUntil);
+      const now = new Date();
+      const dates = generateOccurrences(
+        parseISO(series.startDate),
+        series.rule,
+        until,
+        isBefore(materializedUntil, now) ? now : materializedUntil
+      ).slice(0, MATERIALIZE_CHUNK_SIZE);
+
+      if (dates.length === 0) return 0;
+
+      // Aucun cours n'est créé pendant une fermeture de l'école
+      dates.filter((date) => !getClosureOn(date, closures)).forEach((date) => {
+        const classRef = doc(db, 'classes', `${seriesId}_${format(date, "yyyyMMdd'T'HHmm")}`);
+        const occurrence: Class = {
+          id: classRef.id,
+          title: series.title,
+          teacherId: series.teacherId,
+          datetime: date.toISOString(),
+          duration: series.duration,
+          maxStudents: series.maxStudents,
+          enrolledStudents: [],
+          isRecurring: true,
+          level: series.level,
+          ...(series.description && { description: series.description }),
+          ...(series.roomId && { roomId: series.roomId }),
+          seriesId,
+          schoolId: series.schoolId,
+        };
+        transaction.set(classRef, occurrence);
+      });
+
+      transaction.update(seriesRef, {
+        materializedUntil: dates[dates.length - 1].toISOString()
+      });
+
+      return dates.length;
+    });
+  }
+}
+
+// Prolonge les séries de l'école dont les cours créés n'atteignent plus l'horizon (à une semaine près)
+async function extendSchoolSeries(schoolId: string): Promise<void> {
+  const refillBefore = addWeeks(new Date(), SERIES_HORIZON_WEEKS - 1);
+  const snapshot = await getDocs(query(collection(db, 'series'), where('schoolId', '==', schoolId)));
+
+  for (const seriesDoc of snapshot.docs) {
+    const series = seriesDoc.data() as ClassSeries;
+    if (!isBefore(parseISO(series.materializedUntil), refillBefore)) continue;
+    if (series.endDate && !isBefore(parseISO(series.materializedUntil), parseISO(series.endDate))) continue;
+
+    await extendSeries(seriesDoc.id);
+  }
+}
+
+// Vérifie qu'aucun cours de l'école n'occupe déjà le professeur ou la salle sur ces créneaux.
+// Les cours en cours de modification (excludeIds) ne sont pas comparés à eux-mêmes.
+// allowConflicts lève les conflits de professeur confirmés, jamais ceux de salle.
+async function assertNoScheduleConflicts(
+  schoolId: string,
+  slots: ScheduleSlot[],
+  excludeIds: string[] = [],
+  allowConflicts = false
+): Promise<void> {
+  if (slots.length === 0) return;
+
+  const datetimes = slots.map((slot) => slot.datetime).sort();
+  const classesQuery = query(
+    collection(db, 'classes'),
+    where('schoolId', '==', schoolId),
+    where('datetime', '>', subMinutes(parseISO(datetimes[0]), MAX_CLASS_DURATION).toISOString()),
+    where('datetime', '<', addMinutes(parseISO(datetimes[datetimes.length - 1]), MAX_CLASS_DURATION).toISOString())
+  );
+
+  const snapshot = await getDocs(classesQuery);
+  const existingClasses = snapshot.docs
+    .filter((classDoc) => !excludeIds.includes(classDoc.id))
+    .map((classDoc) => ({ ...classDoc.data(), id: classDoc.id }) as Class);
+
+  const conflicts = findScheduleConflicts(slots, existingClasses)
+    .filter((conflict) => !allowConflicts || conflict.reason === 'room');
+  if (conflicts.length > 0) {
+    throw new ScheduleConflictError(conflicts);
+  }
+}
+
+// Un cours ne peut pas accueillir plus d'élèves que sa salle ne compte de barres
+function assertRoomCapacity(rooms: Room[] | undefined, roomId: string | null | undefined, maxStudents: number) {
+  const room = roomId ? rooms?.find((candidate) => candidate.id === roomId) : undefined;
+  if (roomId && !room) {
+    throw new Error("Cette salle n'existe plus");
+  }
+
+  const maxAllowed = getMaxStudentsLimit(rooms, roomId);
+  if (maxStudents > maxAllowed) {
+    throw new Error(room
+      ? `La salle ${room.name} ne compte que ${maxAllowed} barre${maxAllowed > 1 ? 's' : ''}`
+      : `Un cours sans salle est limité à ${maxAllowed} élèves`);
+  }
+}
+
+const NOTIFICATIONS_LIMIT = 20;
+
+interface DocumentWriter {
+  set: (ref: DocumentReference, data: DocumentData) => unknown;
+  update: (ref: DocumentReference, data: UpdateData<DocumentData>) => unknown;
+}
+
+// Toute variation de crédits est inscrite au registre de l'élève (users/{id}/ledger), dans la même
+// transaction ou le même batch que la mise à jour du solde dénormalisé sur le document utilisateur.
+function recordCreditMovement(
+  writer: DocumentWriter,
+  userId: string,
+  entry: Omit<CreditLedgerEntry, 'id' | 'createdAt'>
+) {
+  const entryRef = doc(collection(db, 'users', userId, 'ledger'));
+  const ledgerEntry: CreditLedgerEntry = {
+    ...entry,
+    id: entryRef.id,
+    createdAt: new Date().toISOString(),
+  };
+
+  writer.set(entryRef, ledgerEntry);
+  writer.update(doc(db, 'users', userId), {
+    credits: increment(entry.amount)
+  });
+}
+
+interface CreditAccount {
+  credits: number;
+  creditPacks: CreditPack[];
+}
+
+// Notification in-app écrite avec la modification qui la déclenche
+function notifyUser(
+  writer: DocumentWriter,
+  userId: string,
+  notification: Omit<AppNotification, 'id' | 'userId' | 'read' | 'createdAt'>
+) {
+  writer.set(doc(collection(db, 'notifications')), {
+    ...notification,
+    userId,
+    read: false,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+type CreditMovementDetails = Pick<CreditLedgerEntry, 'authorId' | 'reason' | 'classId'>;
+
+// Ouvre le compte de crédits d'un élève : les carnets expirés sont soldés au passage.
+// Dans une transaction, à appeler une fois toutes les lectures faites.
+function openCreditAccount(
+  writer: DocumentWriter,
+  userId: string,
+  student: Omit<User, 'id'>,
+  authorId: string
+): CreditAccount {
+  const { packs, expired } = expirePacks(student.creditPacks || []);
+  let credits = student.credits || 0;
+
+  expired.forEach((pack) => {
+    recordCreditMovement(writer, userId, {
+      type: 'expiry',
+      amount: -pack.remaining,
+      authorId,
+      reason: `${pack.name} expiré`,
+      packId: pack.id,
+    });
+    credits -= pack.remaining;
+  });
+
+  return { credits, creditPacks: packs };
+}
+
+function debitCredit(
+  writer: DocumentWriter,
+  userId: string,
+  account: CreditAccount,
+  details: CreditMovementDetails
+): CreditAccount {
+  const { packs, packId } = consumeFromPacks(account.creditPacks);
+  recordCreditMovement(writer, userId, { ...details, type: 'consume', amount: -1, packId });
+  return { credits: account.credits - 1, creditPacks: packs };
+}
+
+function refundCredit(
+  writer: DocumentWriter,
+  userId: string,
+  account: CreditAccount,
+  details: CreditMovementDetails
+): CreditAccount {
+  const { packs, packId } = refundToPacks(account.creditPacks);
+  recordCreditMovement(writer, userId, { ...details, type: 'refund', amount: 1, packId });
+  return { credits: account.credits + 1, creditPacks: packs };
+}
+
+function saveCreditAccount(writer: DocumentWriter, userId: string, account: CreditAccount) {
+  writer.update(doc(db, 'users', userId), {
+    creditPacks: account.creditPacks
+  });
+}
+
+// Réservations déjà couvertes par l'abonnement de l'élève, par période de quota, sur les périodes des cours demandés.
+// Lues hors transaction : deux réservations simultanées peuvent dépasser le quota, jamais la capacité d'un cours.
+async function fetchQuotaUsage(
+  userId: string,
+  student: Omit<User, 'id'>,
+  schoolId: string,
+  datetimes: string[]
+): Promise<Map<string, number>> {
+  const quotaUsage = new Map<string, number>();
+  const quota = student.subscription?.quota;
+  if (!quota || datetimes.length === 0) return quotaUsage;
+
+  const sortedDatetimes = [...datetimes].sort();
+  const classesQuery = query(
+    collection(db, 'classes'),
+    where('schoolId', '==', schoolId),
+    where('enrolledStudents', 'array-contains', userId),
+    where('datetime', '>=', getQuotaPeriodStart(quota, sortedDatetimes[0]).toISOString()),
+    where('datetime', '<=', getQuotaPeriodEnd(quota, sortedDatetimes[sortedDatetimes.length - 1]).toISOString())
+  );
+
+  const snapshot = await getDocs(classesQuery);
+  snapshot.docs.forEach((doc) => {
+    const bookedClass = doc.data() as Class;
+    if (bookedClass.status !== 'cancelled' && !bookedClass.paidWithCredits?.includes(userId)) {
+      claimSubscriptionSlot(student, bookedClass, quotaUsage);
+    }
+  });
+
+  return quotaUsage;
+}
+
+// Supprimer un cours avec des inscrits leur ferait perdre leur réservation sans remboursement ni message :
+// il doit passer par cancelOccurrence. Les inscrits d'un cours annulé ont déjà été remboursés.
+const ENROLLED_CLASS_DELETE_ERROR = 'Des élèves sont inscrits à ce cours : annulez-le pour les rembourser et les prévenir';
+
+function hasEnrolledStudents(classData: Class): boolean {
+  return classData.status !== 'cancelled' && classData.enrolledStudents.length > 0;
+}
+
+// Annule un cours à l'initiative de l'école : les élèves inscrits sont prévenus, et ceux qui avaient payé
+// en crédits sont remboursés sans appliquer la politique d'annulation. Le cours reste en place avec
+// le statut cancelled. Renvoie false si le cours était déjà annulé.
+async function cancelOccurrence(classRef: DocumentReference, reason: string, authorId: string): Promise<boolean> {
+  return runTransaction(db, async (transaction) => {
+    const classDoc = await transaction.get(classRef);
+    if (!classDoc.exists()) return false;
+
+    const classData = classDoc.data() as Class;
+    if (classData.status === 'cancelled') return false;
+
+    const studentDocs = await Promise.all(
+      classData.enrolledStudents.map((studentId) => transaction.get(doc(db, 'users', studentId)))
+    );
+    const classDate = format(parseISO(classData.datetime), "EEEE d MMMM 'à' HH'h'mm", { locale: fr });
+
+    studentDocs.forEach((studentDoc) => {
+      if (!studentDoc.exists()) return;
+
+      const student = studentDoc.data() as Omit<User, 'id'>;
+      const refunded = wasPaidWithCredits(classData, studentDoc.id);
+
+      if (refunded) {
+        const account = refundCredit(transaction, studentDoc.id, openCreditAccount(transaction, studentDoc.id, student, authorId), {
+          authorId,
+          reason: `Cours annulé : ${reason}`,
+          classId: classRef.id,
+        });
+        saveCreditAccount(transaction, studentDoc.id, account);
+      }
+
+      notifyUser(transaction, studentDoc.id, {
+        type: 'class-cancelled',
+        schoolId: classData.schoolId,
+        classId: classRef.id,
+        message: `Le cours "${classData.title}" du ${classDate} est annulé (${reason}).` +
+          (refunded ? ' Votre crédit a été remboursé.' : ''),
+      });
+    });
+
+    // La liste d'attente est vidée ; les élèves en attente sont prévenus sans remboursement
+    (classData.waitlist || []).forEach((entry) => {
+      notifyUser(transaction, entry.userId, {
+        type: 'class-cancelled',
+        schoolId: classData.schoolId,
+        classId: classRef.id,
+        message: `Le cours "${classData.title}" du ${classDate} est annulé (${reason}). Vous avez été retiré(e) de la liste d'attente.`,
+      });
+    });
+
+    const cancellation: ClassCancellation = {
+      reason,
+      authorId,
+      cancelledAt: new Date().toISOString(),
+    };
+
+    // Les crédits ont été rendus : paidWithCredits est vidé pour ne jamais rembourser deux fois
+    transaction.update(classRef, {
+      status: 'cancelled',
+      cancellation,
+      paidWithCredits: [],
+      waitlist: [],
+      toRegularize: [],
+    });
+
+    return true;
+  });
+}
+
+// Fait monter les premiers élèves de la liste d'attente tant qu'il reste des places. Le cours est couvert
+// par l'abonnement de l'élève ou débité de ses crédits au moment de la promotion ; un élève qui ne peut
+// pas payer garde sa place dans la file.
+export async function promoteFromWaitlist(classRef: DocumentReference, authorId: string): Promise<void> {
+  const initialDoc = await getDoc(classRef);
+  if (!initialDoc.exists()) return;
+
+  const initialClass = initialDoc.data() as Class;
+  if (initialClass.status === 'cancelled' || !initialClass.waitlist?.length) return;
+
+  const quotaUsages = new Map<string, Map<string, number>>();
+  for (const entry of initialClass.waitlist) {
+    const userDoc = await getDoc(doc(db, 'users', entry.userId));
+    if (!userDoc.exists()) continue;
+
+    quotaUsages.set(
+      entry.userId,
+      await fetchQuotaUsage(entry.userId, userDoc.data() as Omit<User, 'id'>, initialClass.schoolId, [initialClass.datetime])
+    );
+  }
+
+  await runTransaction(db, async (transaction) => {
+    const classDoc = await transaction.get(classRef);
+    if (!classDoc.exists()) return;
+
+    const classData = classDoc.data() as Class;
+    const waitlist = classData.waitlist || [];
+    if (waitlist.length === 0) return;
+
+    const enrolledStudents = [...classData.enrolledStudents];
+    const paidWithCredits = [...(classData.paidWithCredits || [])];
+    const remainingWaitlist: WaitlistEntry[] = [];
+    const chargedStudents: { userId: string; student: Omit<User, 'id'> }[] = [];
+
+    for (const entry of waitlist) {
+      if (enrolledStudents.includes(entry.userId)) continue;
+
+      if (enrolledStudents.length >= classData.maxStudents) {
+        remainingWaitlist.push(entry);
+        continue;
+      }
+
+      const userDoc = await transaction.get(doc(db, 'users', entry.userId));
+      if (!userDoc.exists()) continue;
+
+      const student = userDoc.data() as Omit<User, 'id'>;
+      if (getSubscriptionFreeze(student, parseISO(classData.datetime))) {
+        remainingWaitlist.push(entry);
+        continue;
+      }
+
+      // Copie : une transaction rejouée après un conflit ne doit pas compter deux fois les places du quota
+      const coverage = claimSubscriptionSlot(student, classData, new Map(quotaUsages.get(entry.userId)));
+
+      if (coverage !== 'covered') {
+        if (getAvailableCredits(student) < 1) {
+          remainingWaitlist.push(entry);
+          continue;
+        }
+
+        chargedStudents.push({ userId: entry.userId, student });
+        paidWithCredits.push(entry.userId);
+      }
+
+      enrolledStudents.push(entry.userId);
+    }
+
+    if (remainingWaitlist.length === waitlist.length) return;
+
+    transaction.update(classRef, {
+      enrolledStudents,
+      paidWithCredits,
+      waitlist: remainingWaitlist,
+    });
+
+    chargedStudents.forEach(({ userId, student }) => {
+      const account = debitCredit(transaction, userId, openCreditAccount(transaction, userId, student, authorId), {
+        authorId,
+        reason: "Inscription depuis la liste d'attente",
+        classId: classRef.id,
+      });
+      saveCreditAccount(transaction, userId, account);
+    });
+  });
+}
+
+type SetState = (partial: Partial<Store>) => void;
+
+// Abonnements temps réel : le profil de l'utilisateur connecté, puis l'école et les cours de son école
+let unsubscribeUser: Unsubscribe | null = null;
+let liveSchool: { schoolId: string; unsubscribers: Unsubscribe[] } | null = null;
+
+function stopSchoolListeners() {
+  liveSchool?.unsubscribers.forEach((unsubscribe) => unsubscribe());
+  liveSchool = null;
+}
+
+function stopLiveUpdates() {
+  unsubscribeUser?.();
+  unsubscribeUser = null;
+  stopSchoolListeners();
+}
+
+// Les places restantes, une annulation ou un changement d'horaire faits par un autre utilisateur
+// s'affichent sans recharger la page. Même fenêtre que fetchClasses pour les cours passés.
+function listenToSchool(schoolId: string | null | undefined, set: SetState) {
+  if (liveSchool && liveSchool.schoolId === schoolId) return;
+  stopSchoolListeners();
+  // Les cours de l'ancienne école ne doivent pas rester affichés pendant le chargement de la nouvelle
+  set({ classes: [] });
+
+  if (!schoolId) {
+    set({ school: null });
+    return;
+  }
+
+  const classesQuery = query(
+    collection(db, 'classes'),
+    where('schoolId', '==', schoolId),
+    where('datetime', '>=', subDays(new Date(), ATTENDANCE_WINDOW_DAYS).toISOString())
+  );
+
+  liveSchool = {
+    schoolId,
+    unsubscribers: [
+      onSnapshot(
+        doc(db, 'schools', schoolId),
+        (schoolDoc) => {
+          if (schoolDoc.exists()) {
+            set({ school: { id: schoolDoc.id, ...schoolDoc.data() as Omit<School, 'id'> } });
+          }
+        },
+        (error) => console.error('Error listening to school:', error)
+      ),
+      onSnapshot(
+        classesQuery,
+        (snapshot) => {
+          set({ classes: snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Class[] });
+        },
+        (error) => console.error('Error listening to classes:', error)
+      ),
+    ],
+  };
+}
+
+// Crédits et abonnement modifiés par un professeur sont visibles tout de suite ; rejoindre
+// ou quitter une école déplace les abonnements de l'école
+function listenToUser(userId: string, set: SetState) {
+  unsubscribeUser?.();
+  unsubscribeUser = onSnapshot(
+    doc(db, 'users', userId),
+    (userDoc) => {
+      if (!userDoc.exists()) return;
+
+      const userData = userDoc.data() as Omit<User, 'id'>;
+      set({ user: { id: userDoc.id, ...userData } });
+      listenToSchool(userData.schoolId, set);
+    },
+    (error) => console.error('Error listening to user:', error)
+  );
+}
+
 export const useStore = create<Store>((set, get) => ({
   user: null,
   school: null,
   classes: [],
+  notifications: [],
   isLoading: true,
 
   setUser: (user) => set({ user }),
@@ -84,21 +661,13 @@ export const useStore = create<Store>((set, get) => ({
             },
             isLoading: false 
           });
-          
-          if (userData.schoolId) {
-            const schoolDoc = await getDoc(doc(db, 'schools', userData.schoolId));
-            if (schoolDoc.exists()) {
-              set({ 
-                school: { 
-                  id: schoolDoc.id,
-                  ...schoolDoc.data() as Omit<School, 'id'>
-                }
-              });
-            }
-          }
+
+          // L'école est chargée par son abonnement, ouvert dès le premier instantané du profil
+          listenToUser(firebaseUser.uid, set);
         }
       } else {
-        set({ user: null, school: null, isLoading: false });
+        stopLiveUpdates();
+        set({ user: null, school: null, classes: [], isLoading: false });
       }
     });
   },
@@ -118,6 +687,8 @@ export const useStore = create<Store>((set, get) => ({
           ...userData
         }
       });
+      // Le profil n'existait pas encore quand onAuthStateChanged s'est déclenché
+      listenToUser(firebaseUser.uid, set);
     } catch (error) {
       console.error('Error signing up:', error);
       throw error;
@@ -145,50 +716,259 @@ export const useStore = create<Store>((set, get) => ({
 
   signOut: async () => {
     try {
+      // Les abonnements sont fermés avant la déconnexion, qui leur retirerait l'accès aux données
+      stopLiveUpdates();
       await firebaseSignOut(auth);
-      set({ user: null, school: null });
+      set({ user: null, school: null, classes: [], notifications: [] });
     } catch (error) {
       console.error('Error signing out:', error);
       throw error;
     }
   },
 
-  addClass: async (newClass) => {
+  addClass: async (newClass, recurrence, allowConflicts = false) => {
     try {
       const classRef = doc(collection(db, 'classes'));
       const classData = { ...newClass, id: classRef.id };
+      const startDate = parseISO(newClass.datetime);
+      const rule: RecurrenceRule = recurrence || { frequency: 'weekly', interval: 1, weekdays: [startDate.getDay()] };
+
+      assertRoomCapacity(get().school?.rooms, newClass.roomId, newClass.maxStudents);
+
+      // Une série est vérifiée sur les cours créés tout de suite, jusqu'à l'horizon glissant
+      const horizon = addWeeks(new Date(), SERIES_HORIZON_WEEKS);
+      const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+      const dates = newClass.isRecurring
+        ? generateOccurrences(startDate, rule, until && isBefore(until, horizon) ? until : horizon)
+          .filter((date) => !getClosureOn(date, get().school?.closures))
+        : [startDate];
+
+      await assertNoScheduleConflicts(newClass.schoolId, dates.map((date) => ({
+        datetime: date.toISOString(),
+        duration: newClass.duration,
+        teacherId: newClass.teacherId,
+        roomId: newClass.roomId,
+      })), [], allowConflicts);
 
       if (newClass.isRecurring) {
-        const startDate = parseISO(newClass.datetime);
-        const endDate = addYears(startDate, 1);
-        const dates = generateRecurringDates(startDate, endDate);
-        
-        const batch = writeBatch(db);
-        const baseId = crypto.randomUUID();
+        const seriesRef = doc(collection(db, 'series'));
+        const series: ClassSeries = {
+          id: seriesRef.id,
+          schoolId: newClass.schoolId,
+          teacherId: newClass.teacherId,
+          title: newClass.title,
+          duration: newClass.duration,
+          maxStudents: newClass.maxStudents,
+          level: newClass.level,
+          ...(newClass.description && { description: newClass.description }),
+          ...(newClass.roomId && { roomId: newClass.roomId }),
+          rule,
+          startDate: newClass.datetime,
+          endDate: rule.until ? endOfDay(parseISO(rule.until)).toISOString() : null,
+          // Aucun cours créé : le premier l'est par extendSeries
+          materializedUntil: subMinutes(startDate, 1).toISOString(),
+          createdAt: new Date().toISOString(),
+        };
+
+        await setDoc(seriesRef, series);
+        await extendSeries(seriesRef.id);
+      } else {
+        await setDoc(classRef, classData);
+      }
+    } catch (error) {
+      console.error('Error adding class:', error);
+      throw error;
+    }
+  },
+
+  updateClass: async (classId, updatedClass, scope, allowConflicts = false) => {
+    try {
+      const classRef = doc(db, 'classes', classId);
+      const classDoc = await getDoc(classRef);
+      
+      if (!classDoc.exists()) {
+        throw new Error('Class not found');
+      }
+
+      const classData = classDoc.data() as Class;
+      const { datetime, ...changes } = updatedClass;
+      const newDatetime = datetime && datetime !== classData.datetime ? parseISO(datetime) : null;
+      let classDocs = [{ ref: classRef, ...classData }];
+
+      const batch = writeBatch(db);
+
+      const editedDate = parseISO(classData.datetime);
+      // Sur une série à plusieurs jours, seuls les cours du jour modifié changent de jour ;
+      // les autres jours de la série gardent le leur et prennent le nouvel horaire
+      const shiftDatetime = (occurrenceDatetime: string) => {
+        if (!newDatetime) return occurrenceDatetime;
+
+        const occurrence = parseISO(occurrenceDatetime);
+        const target = occurrence.getDay() === editedDate.getDay()
+          ? newDatetime
+          : setMinutes(setHours(editedDate, newDatetime.getHours()), newDatetime.getMinutes());
+        return shiftOccurrence(occurrence, editedDate, target).toISOString();
+      };
+
+      // Les cours suivants passent dans une nouvelle série quand "ce cours et les suivants" coupe la série
+      let newSeriesId: string | null = null;
+
+      if (scope !== 'occurrence' && classData.seriesId) {
+        // "Toute la série" ne réécrit pas les cours déjà passés : leur historique (présences) est conservé
+        const classesQuery = query(
+          collection(db, 'classes'),
+          where('seriesId', '==', classData.seriesId),
+          where('datetime', '>=', scope === 'following' ? classData.datetime : new Date().toISOString())
+        );
         
-        dates.forEach((date, index) => {
-          const recurringClassRef = doc(collection(db, 'classes'));
-          batch.set(recurringClassRef, {
-            ...classData,
-            id: recurringClassRef.id,
-            datetime: date.toISOString(),
-            baseId: index === 0 ? null : baseId,
+        const snapshot = await getDocs(classesQuery);
+        classDocs = [
+          ...classDocs,
+          ...snapshot.docs
+            .filter((doc) => doc.id !== classId)
+            .map((doc) => ({ ref: doc.ref, ...(doc.data() as Class) })),
+        ];
+
+        // Le modèle de la série suit la modification pour les cours qui seront créés plus tard
+        const seriesRef = doc(db, 'series', classData.seriesId);
+        const seriesDoc = await getDoc(seriesRef);
+
+        if (seriesDoc.exists()) {
+          const series = seriesDoc.data() as ClassSeries;
+          const newWeekday = newDatetime?.getDay() ?? editedDate.getDay();
+
+          if (newWeekday !== editedDate.getDay() && series.rule.weekdays.includes(newWeekday)) {
+            throw new Error('Ce jour fait déjà partie de la série : modifiez uniquement ce cours');
+          }
+
+          const rule: RecurrenceRule = {
+            ...series.rule,
+            weekdays: series.rule.weekdays.map((weekday) => (weekday === editedDate.getDay() ? newWeekday : weekday)),
+          };
+          // Un cours déplacé après le dernier cours créé ne doit pas être recréé par l'extension
+          const materializedUntil = [
+            shiftDatetime(series.materializedUntil),
+            ...classDocs.map((occurrence) => shiftDatetime(occurrence.datetime)),
+          ].sort().pop()!;
+
+          if (scope === 'following' && isBefore(parseISO(series.startDate), editedDate)) {
+            // Les cours précédents restent dans l'ancienne série, qui s'arrête au cours modifié
+            const newSeriesRef = doc(collection(db, 'series'));
+            newSeriesId = newSeriesRef.id;
+            const previousCount = series.rule.count
+              ? generateOccurrences(parseISO(series.startDate), series.rule, editedDate).length
+              : 0;
+
+            const newSeries: ClassSeries = {
+              ...series,
+              ...pickSeriesTemplate(changes),
+              id: newSeriesRef.id,
+              rule: series.rule.count ? { ...rule, count: series.rule.count - previousCount } : rule,
+              startDate: shiftDatetime(classData.datetime),
+              materializedUntil,
+              createdAt: new Date().toISOString(),
+            };
+            batch.set(newSeriesRef, newSeries);
+            batch.update(seriesRef, { endDate: classData.datetime });
+          } else {
+            batch.update(seriesRef, {
+              ...pickSeriesTemplate(changes),
+              ...(newDatetime && {
+                startDate: shiftDatetime(series.startDate),
+                materializedUntil,
+                rule,
+              }),
+            });
+          }
+        }
+      }
+
+      if (changes.roomId !== undefined || changes.maxStudents !== undefined) {
+        assertRoomCapacity(
+          get().school?.rooms,
+          changes.roomId !== undefined ? changes.roomId : classData.roomId,
+          changes.maxStudents ?? classData.maxStudents
+        );
+      }
+
+      // Seuls un nouvel horaire, une nouvelle durée ou une autre salle peuvent créer un chevauchement
+      const roomChanged = changes.roomId !== undefined && changes.roomId !== (classData.roomId ?? null);
+      if (newDatetime || roomChanged || (changes.duration !== undefined && changes.duration !== classData.duration)) {
+        await assertNoScheduleConflicts(
+          classData.schoolId,
+          classDocs
+            .filter((occurrence) => occurrence.status !== 'cancelled')
+            .map((occurrence) => ({
+              datetime: shiftDatetime(occurrence.datetime),
+              duration: changes.duration ?? occurrence.duration,
+              teacherId: getOccurrenceTeacherId(occurrence),
+              roomId: changes.roomId !== undefined ? changes.roomId : occurrence.roomId,
+            })),
+          classDocs.map((occurrence) => occurrence.ref.id),
+          allowConflicts
+        );
+      }
+
+      // Chaque cours est décalé à partir de sa propre date : les inscriptions restent sur leur occurrence
+      classDocs.forEach((occurrence) => {
+        batch.update(occurrence.ref, {
+          ...changes,
+          ...(newDatetime && { datetime: shiftDatetime(occurrence.datetime) }),
+          ...(newSeriesId && { seriesId: newSeriesId }),
+          // Les barres choisies n'ont plus de sens dans une autre salle
+          ...(roomChanged && { poleAssignments: {} }),
+        });
+      });
+
+      // Les élèves inscrits sont prévenus du nouvel horaire, une seule fois même pour plusieurs cours
+      const durationChanged = changes.duration !== undefined && changes.duration !== classData.duration;
+      if (newDatetime || durationChanged) {
+        const rescheduledByStudent = new Map<string, typeof classDocs>();
+        classDocs
+          .filter((occurrence) => occurrence.status !== 'cancelled')
+          .forEach((occurrence) => {
+            occurrence.enrolledStudents.forEach((studentId) => {
+              rescheduledByStudent.set(studentId, [...(rescheduledByStudent.get(studentId) || []), occurrence]);
+            });
+          });
+
+        const formatDatetime = (datetime: string) => format(parseISO(datetime), "EEEE d MMMM 'à' HH'h'mm", { locale: fr });
+        const title = changes.title ?? classData.title;
+
+        rescheduledByStudent.forEach((occurrences, studentId) => {
+          const [first] = occurrences.sort((a, b) => a.datetime.localeCompare(b.datetime));
+          const newTime = newDatetime ? ` est déplacé au ${formatDatetime(shiftDatetime(first.datetime))}` : '';
+          const newDuration = durationChanged ? ` durera ${changes.duration} minutes` : '';
+
+          notifyUser(batch, studentId, {
+            type: 'class-rescheduled',
+            schoolId: classData.schoolId,
+            classId: first.ref.id,
+            message: occurrences.length === 1
+              ? `Le cours "${title}" du ${formatDatetime(first.datetime)}${newTime}${newTime && newDuration ? ' et' : ''}${newDuration}.`
+              : `Les ${occurrences.length} cours "${title}" auxquels vous êtes inscrit(e) à partir du ${formatDatetime(first.datetime)} changent d'horaire${
+                  newDatetime ? ` : le premier a désormais lieu le ${formatDatetime(shiftDatetime(first.datetime))}` : ''
+                }${durationChanged ? `${newDatetime ? ',' : ' :'} durée ${changes.duration} minutes` : ''}.`,
           });
         });
-        
-        await batch.commit();
-      } else {
-        await setDoc(classRef, classData);
       }
 
-      await get().fetchClasses();
+      await batch.commit();
+
+      // Des places ne se libèrent que sur les cours dont le professeur a augmenté la capacité
+      const newMaxStudents = changes.maxStudents;
+      if (newMaxStudents !== undefined) {
+        for (const occurrence of classDocs.filter((candidate) => newMaxStudents > candidate.maxStudents)) {
+          await promoteFromWaitlist(occurrence.ref, get().user?.id || classData.teacherId);
+        }
+      }
     } catch (error) {
-      console.error('Error adding class:', error);
+      console.error('Error updating class:', error);
       throw error;
     }
   },
 
-  updateClass: async (classId, updatedClass, updateRecurring) => {
+  deleteClass: async (classId, deleteRecurring) => {
     try {
       const classRef = doc(db, 'classes', classId);
       const classDoc = await getDoc(classRef);
@@ -199,33 +979,187 @@ export const useStore = create<Store>((set, get) => ({
 
       const classData = classDoc.data() as Class;
 
-      if (updateRecurring && classData.baseId) {
+      if (hasEnrolledStudents(classData)) {
+        throw new Error(ENROLLED_CLASS_DELETE_ERROR);
+      }
+
+      if (deleteRecurring && classData.seriesId) {
         const classesQuery = query(
           collection(db, 'classes'),
-          where('baseId', '==', classData.baseId),
+          where('seriesId', '==', classData.seriesId),
           where('datetime', '>=', classData.datetime)
         );
         
         const snapshot = await getDocs(classesQuery);
+        if (snapshot.docs.some((doc) => hasEnrolledStudents(doc.data() as Class))) {
+          throw new Error(ENROLLED_CLASS_DELETE_ERROR);
+        }
+
+        const seriesRef = doc(db, 'series', classData.seriesId);
+        const seriesDoc = await getDoc(seriesRef);
         const batch = writeBatch(db);
         
         snapshot.docs.forEach((doc) => {
-          batch.update(doc.ref, updatedClass);
+          batch.delete(doc.ref);
         });
+
+        // La série s'arrête avant ce cours, ou disparaît si elle n'en garde aucun
+        if (seriesDoc.exists()) {
+          if (classData.datetime <= (seriesDoc.data() as ClassSeries).startDate) {
+            batch.delete(seriesRef);
+          } else {
+            batch.update(seriesRef, { endDate: classData.datetime });
+          }
+        }
         
         await batch.commit();
       } else {
-        await updateDoc(classRef, updatedClass);
+        await deleteDoc(classRef);
       }
-      
-      await get().fetchClasses();
     } catch (error) {
-      console.error('Error updating class:', error);
+      console.error('Error deleting class:', error);
       throw error;
     }
   },
 
-  deleteClass: async (classId, deleteRecurring) => {
+  cancelClass: async (classId, reason) => {
+    try {
+      const { user } = get();
+      if (!user) throw new Error('User not authenticated');
+
+      const cancelled = await cancelOccurrence(doc(db, 'classes', classId), reason, user.id);
+      if (!cancelled) {
+        throw new Error('Ce cours est déjà annulé');
+      }
+    } catch (error) {
+      console.error('Error cancelling class:', error);
+      throw error;
+    }
+  },
+
+  assignSubstitute: async (classId, substituteTeacherId, until, allowConflicts = false) => {
+    try {
+      const { school } = get();
+      const classDoc = await getDoc(doc(db, 'classes', classId));
+
+      if (!classDoc.exists()) {
+        throw new Error('Class not found');
+      }
+
+      const classData = classDoc.data() as Class;
+      if (substituteTeacherId && !school?.teacherIds.includes(substituteTeacherId)) {
+        throw new Error("Ce professeur n'enseigne pas dans l'école");
+      }
+
+      let occurrenceDocs = [classDoc];
+
+      // Remplacement sur une période de la série : de cette occurrence jusqu'à la date choisie incluse
+      if (until && classData.seriesId) {
+        const classesQuery = query(
+          collection(db, 'classes'),
+          where('seriesId', '==', classData.seriesId),
+          where('datetime', '>=', classData.datetime),
+          where('datetime', '<=', endOfDay(parseISO(until)).toISOString())
+        );
+        occurrenceDocs = (await getDocs(classesQuery)).docs;
+      }
+
+      const changedDocs = occurrenceDocs.filter((occurrenceDoc) => {
+        const occurrence = occurrenceDoc.data() as Class;
+        return occurrence.status !== 'cancelled' &&
+          getOccurrenceTeacherId(occurrence) !== (substituteTeacherId || occurrence.teacherId);
+      });
+      if (changedDocs.length === 0) return 0;
+
+      // Le professeur qui reprend les cours ne doit pas en assurer un autre sur le même créneau.
+      // La salle ne change pas : seuls les conflits de professeur sont recherchés.
+      await assertNoScheduleConflicts(
+        classData.schoolId,
+        changedDocs.map((occurrenceDoc) => {
+          const occurrence = occurrenceDoc.data() as Class;
+          return {
+            datetime: occurrence.datetime,
+            duration: occurrence.duration,
+            teacherId: substituteTeacherId || occurrence.teacherId,
+          };
+        }),
+        changedDocs.map((occurrenceDoc) => occurrenceDoc.id),
+        allowConflicts
+      );
+
+      const substituteDoc = substituteTeacherId ? await getDoc(doc(db, 'users', substituteTeacherId)) : null;
+      const substituteName = (substituteDoc?.data() as User | undefined)?.name;
+
+      const batch = writeBatch(db);
+      const changedDatesByStudent = new Map<string, string[]>();
+
+      changedDocs.forEach((occurrenceDoc) => {
+        const occurrence = occurrenceDoc.data() as Class;
+        // Le professeur habituel n'est pas un remplaçant de son propre cours
+        batch.update(occurrenceDoc.ref, {
+          substituteTeacherId: substituteTeacherId === occurrence.teacherId ? null : substituteTeacherId,
+        });
+
+        occurrence.enrolledStudents.forEach((studentId) => {
+          changedDatesByStudent.set(studentId, [...(changedDatesByStudent.get(studentId) || []), occurrence.datetime]);
+        });
+      });
+
+      // Une seule notification par élève, même si plusieurs de ses cours changent de professeur
+      changedDatesByStudent.forEach((datetimes, studentId) => {
+        const dates = datetimes
+          .sort()
+          .map((datetime) => format(parseISO(datetime), "EEEE d MMMM 'à' HH'h'mm", { locale: fr }));
+        const newTeacher = substituteName && substituteTeacherId !== classData.teacherId
+          ? substituteName
+          : 'votre professeur habituel';
+
+        notifyUser(batch, studentId, {
+          type: 'teacher-changed',
+          schoolId: classData.schoolId,
+          classId: dates.length === 1 ? changedDocs[0].id : classId,
+          message: dates.length === 1
+            ? `Le cours "${classData.title}" du ${dates[0]} sera assuré par ${newTeacher}.`
+            : `Les ${dates.length} cours "${classData.title}" du ${dates[0]} au ${dates[dates.length - 1]} seront assurés par ${newTeacher}.`,
+        });
+      });
+
+      await batch.commit();
+      return changedDocs.length;
+    } catch (error) {
+      console.error('Error assigning substitute teacher:', error);
+      throw error;
+    }
+  },
+
+  cancelClassesInRange: async (startDate, endDate, reason) => {
+    try {
+      const { user, school } = get();
+      if (!user || !school) throw new Error('User not authenticated');
+
+      const classesQuery = query(
+        collection(db, 'classes'),
+        where('schoolId', '==', school.id),
+        where('datetime', '>=', startOfDay(parseISO(startDate)).toISOString()),
+        where('datetime', '<=', endOfDay(parseISO(endDate)).toISOString())
+      );
+
+      const snapshot = await getDocs(classesQuery);
+      let cancelledCount = 0;
+      for (const classDoc of snapshot.docs) {
+        if (await cancelOccurrence(classDoc.ref, reason, user.id)) {
+          cancelledCount++;
+        }
+      }
+
+      return cancelledCount;
+    } catch (error) {
+      console.error('Error cancelling classes in range:', error);
+      throw error;
+    }
+  },
+
+  enrollInClass: async (classId, userId, enrollAll, pole = null) => {
     try {
       const classRef = doc(db, 'classes', classId);
       const classDoc = await getDoc(classRef);
@@ -235,34 +1169,148 @@ export const useStore = create<Store>((set, get) => ({
       }
 
       const classData = classDoc.data() as Class;
+      if (classData.status === 'cancelled') {
+        throw new Error('Ce cours est annulé');
+      }
+
+      let classRefs = [classRef];
+      let classDatetimes = [classData.datetime];
 
-      if (deleteRecurring && classData.baseId) {
+      if (enrollAll && classData.seriesId) {
         const classesQuery = query(
           collection(db, 'classes'),
-          where('baseId', '==', classData.baseId),
+          where('seriesId', '==', classData.seriesId),
           where('datetime', '>=', classData.datetime)
         );
         
         const snapshot = await getDocs(classesQuery);
-        const batch = writeBatch(db);
-        
-        snapshot.docs.forEach((doc) => {
-          batch.delete(doc.ref);
+        const scheduledDocs = snapshot.docs.filter((doc) => (doc.data() as Class).status !== 'cancelled');
+        classRefs = scheduledDocs.map((doc) => doc.ref);
+        classDatetimes = scheduledDocs.map((doc) => (doc.data() as Class).datetime);
+      }
+
+      const userRef = doc(db, 'users', userId);
+      const initialUserDoc = await getDoc(userRef);
+
+      if (!initialUserDoc.exists()) {
+        throw new Error('User not found');
+      }
+
+      const quotaUsage = await fetchQuotaUsage(
+        userId,
+        initialUserDoc.data() as Omit<User, 'id'>,
+        classData.schoolId,
+        classDatetimes
+      );
+
+      // La capacité et les crédits sont relus dans la transaction : deux élèves
+      // qui réservent la dernière place en même temps ne peuvent pas passer tous les deux
+      const { report, account } = await runTransaction(db, async (transaction) => {
+        // Firestore peut rejouer ce callback : chaque tentative repart du quota lu avant la transaction
+        const usage = new Map(quotaUsage);
+        const userDoc = await transaction.get(userRef);
+
+        if (!userDoc.exists()) {
+          throw new Error('User not found');
+        }
+
+        const classDocs = await Promise.all(classRefs.map((ref) => transaction.get(ref)));
+        const student = userDoc.data() as Omit<User, 'id'>;
+        const report: EnrollmentReport = { enrolled: [], full: [], suspended: [] };
+        const docsToEnroll: typeof classDocs = [];
+
+        classDocs.forEach((doc) => {
+          if (!doc.exists()) return;
+
+          const occurrence = doc.data() as Class;
+          if (occurrence.status === 'cancelled' || occurrence.enrolledStudents.includes(userId)) return;
+
+          if (getSubscriptionFreeze(student, parseISO(occurrence.datetime))) {
+            report.suspended.push(occurrence.datetime);
+          } else if (occurrence.enrolledStudents.length >= occurrence.maxStudents) {
+            report.full.push(occurrence.datetime);
+          } else {
+            report.enrolled.push(occurrence.datetime);
+            docsToEnroll.push(doc);
+          }
+        });
+
+        if (!enrollAll && report.suspended.length > 0) {
+          const freeze = getSubscriptionFreeze(student, parseISO(report.suspended[0]))!;
+          throw new Error(`Votre abonnement est suspendu ${formatFreezePeriod(freeze)} : vous ne pouvez pas réserver de cours pendant cette période`);
+        }
+
+        if (!enrollAll && report.full.length > 0) {
+          throw new Error('Ce cours est complet');
+        }
+
+        // Sur une série, la barre choisie est réservée sur les cours où elle est encore libre
+        const isPoleFree = (occurrence: Class) => pole !== null && !getTakenPoles(occurrence).has(pole);
+        if (!enrollAll && pole !== null && docsToEnroll.some((doc) => !isPoleFree(doc.data() as Class))) {
+          throw new Error("Cette barre vient d'être réservée : choisissez-en une autre");
+        }
+
+        // Chaque cours est couvert par l'abonnement (dans la limite du quota) ou payé en crédits
+        const coverages = docsToEnroll.map((doc) => claimSubscriptionSlot(student, doc.data() as Class, usage));
+        const docsPaidWithCredits = docsToEnroll.filter((_, index) => coverages[index] !== 'covered');
+        const availableCredits = getAvailableCredits(student);
+
+        if (availableCredits < docsPaidWithCredits.length) {
+          throw new Error(insufficientCreditsMessage(
+            docsPaidWithCredits.length,
+            availableCredits,
+            coverages.includes('quota-exceeded')
+          ));
+        }
+
+        docsToEnroll.forEach((doc) => {
+          const occurrence = doc.data() as Class;
+          transaction.update(doc.ref, {
+            enrolledStudents: arrayUnion(userId),
+            waitlist: (occurrence.waitlist || []).filter((entry) => entry.userId !== userId),
+            // paidWithCredits est toujours initialisé : son absence ne doit jamais déclencher de remboursement
+            paidWithCredits: docsPaidWithCredits.includes(doc) ? arrayUnion(userId) : occurrence.paidWithCredits || [],
+            ...(isPoleFree(occurrence) && { [`poleAssignments.${userId}`]: pole }),
+          });
+        });
+
+        if (docsPaidWithCredits.length === 0) {
+          return { report, account: null };
+        }
+
+        const authorId = get().user?.id || userId;
+        let account = openCreditAccount(transaction, userId, student, authorId);
+
+        docsPaidWithCredits.forEach((doc) => {
+          account = debitCredit(transaction, userId, account, {
+            authorId,
+            reason: 'Inscription au cours',
+            classId: doc.id,
+          });
+        });
+        saveCreditAccount(transaction, userId, account);
+
+        return { report, account };
+      });
+
+      const user = get().user;
+      if (account && user?.id === userId) {
+        set({
+          user: {
+            ...user,
+            ...account,
+          },
         });
-        
-        await batch.commit();
-      } else {
-        await deleteDoc(classRef);
       }
       
-      await get().fetchClasses();
+      return report;
     } catch (error) {
-      console.error('Error deleting class:', error);
+      console.error('Error enrolling in class:', error);
       throw error;
     }
   },
 
-  enrollInClass: async (classId, userId, enrollAll) => {
+  unenrollFromClass: async (classId, userId, unenrollAll) => {
     try {
       const classRef = doc(db, 'classes', classId);
       const classDoc = await getDoc(classRef);
@@ -272,74 +1320,170 @@ export const useStore = create<Store>((set, get) => ({
       }
 
       const classData = classDoc.data() as Class;
+      if (classData.status === 'cancelled') {
+        throw new Error('Ce cours est annulé : votre crédit a déjà été remboursé');
+      }
+
+      let classRefs = [classRef];
 
-      if (enrollAll && classData.baseId) {
+      if (unenrollAll && classData.seriesId) {
         const classesQuery = query(
           collection(db, 'classes'),
-          where('baseId', '==', classData.baseId),
+          where('seriesId', '==', classData.seriesId),
           where('datetime', '>=', classData.datetime)
         );
         
         const snapshot = await getDocs(classesQuery);
-        const batch = writeBatch(db);
+        classRefs = snapshot.docs.map((doc) => doc.ref);
+      }
+
+      const schoolDoc = await getDoc(doc(db, 'schools', classData.schoolId));
+      const policy = (schoolDoc.data() as School | undefined)?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+      const userRef = doc(db, 'users', userId);
+      const authorId = get().user?.id || userId;
+
+      const { unenrolledRefs, account } = await runTransaction(db, async (transaction) => {
+        const userDoc = await transaction.get(userRef);
+
+        if (!userDoc.exists()) {
+          throw new Error('User not found');
+        }
+
+        const classDocs = await Promise.all(classRefs.map((ref) => transaction.get(ref)));
+        const student = userDoc.data() as Omit<User, 'id'>;
+        // Les cours annulés gardent leurs inscrits, déjà remboursés
+        const docsToUnenroll = classDocs.filter((doc) =>
+          doc.exists() &&
+          (doc.data() as Class).status !== 'cancelled' &&
+          (doc.data() as Class).enrolledStudents.includes(userId)
+        );
+        const unenrolledRefs = docsToUnenroll.map((doc) => doc.ref);
+        const paidDocs = docsToUnenroll.filter((doc) => wasPaidWithCredits(doc.data() as Class, userId));
         
-        snapshot.docs.forEach((doc) => {
-          batch.update(doc.ref, {
-            enrolledStudents: arrayUnion(userId)
+        unenrolledRefs.forEach((ref) => {
+          transaction.update(ref, {
+            enrolledStudents: arrayRemove(userId),
+            paidWithCredits: arrayRemove(userId),
+            toRegularize: arrayRemove(userId),
+            [`poleAssignments.${userId}`]: deleteField(),
           });
         });
-        
-        await batch.commit();
-      } else {
-        await updateDoc(classRef, {
-          enrolledStudents: arrayUnion(userId)
+
+        if (paidDocs.length === 0) {
+          return { unenrolledRefs, account: null };
+        }
+
+        // Remboursement (ou pénalité) selon la politique d'annulation de l'école
+        let account = openCreditAccount(transaction, userId, student, authorId);
+
+        paidDocs.forEach((doc) => {
+          const { refund, penalty } = getCancellationCredits(policy, (doc.data() as Class).datetime);
+
+          for (let i = 0; i < refund; i++) {
+            account = refundCredit(transaction, userId, account, {
+              authorId,
+              reason: 'Désinscription du cours',
+              classId: doc.id,
+            });
+          }
+
+          // La pénalité s'arrête à zéro : elle ne rend jamais le solde négatif
+          for (let i = 0; i < penalty && account.credits > 0; i++) {
+            account = debitCredit(transaction, userId, account, {
+              authorId,
+              reason: "Pénalité d'annulation tardive",
+              classId: doc.id,
+            });
+          }
+        });
+        saveCreditAccount(transaction, userId, account);
+
+        return { unenrolledRefs, account };
+      });
+
+      const user = get().user;
+      if (account && user?.id === userId) {
+        set({
+          user: {
+            ...user,
+            ...account,
+          },
         });
       }
-      
-      await get().fetchClasses();
+
+      for (const ref of unenrolledRefs) {
+        await promoteFromWaitlist(ref, authorId);
+      }
     } catch (error) {
-      console.error('Error enrolling in class:', error);
+      console.error('Error unenrolling from class:', error);
       throw error;
     }
   },
 
-  unenrollFromClass: async (classId, userId, unenrollAll) => {
+  joinWaitlist: async (classId, userId) => {
     try {
       const classRef = doc(db, 'classes', classId);
-      const classDoc = await getDoc(classRef);
-      
-      if (!classDoc.exists()) {
-        throw new Error('Class not found');
-      }
 
-      const classData = classDoc.data() as Class;
+      await runTransaction(db, async (transaction) => {
+        const classDoc = await transaction.get(classRef);
 
-      if (unenrollAll && classData.baseId) {
-        const classesQuery = query(
-          collection(db, 'classes'),
-          where('baseId', '==', classData.baseId),
-          where('datetime', '>=', classData.datetime)
-        );
-        
-        const snapshot = await getDocs(classesQuery);
-        const batch = writeBatch(db);
-        
-        snapshot.docs.forEach((doc) => {
-          batch.update(doc.ref, {
-            enrolledStudents: arrayRemove(userId)
-          });
+        if (!classDoc.exists()) {
+          throw new Error('Class not found');
+        }
+
+        const classData = classDoc.data() as Class;
+        const waitlist = classData.waitlist || [];
+
+        if (classData.status === 'cancelled') {
+          throw new Error('Ce cours est annulé');
+        }
+
+        if (classData.enrolledStudents.includes(userId) || waitlist.some((entry) => entry.userId === userId)) {
+          return;
+        }
+
+        if (classData.enrolledStudents.length < classData.maxStudents) {
+          throw new Error('Des places sont disponibles : inscrivez-vous directement au cours');
+        }
+
+        const userDoc = await transaction.get(doc(db, 'users', userId));
+        const freeze = userDoc.exists()
+          ? getSubscriptionFreeze(userDoc.data() as Omit<User, 'id'>, parseISO(classData.datetime))
+          : null;
+
+        if (freeze) {
+          throw new Error(`Votre abonnement est suspendu ${formatFreezePeriod(freeze)} : vous ne pouvez pas réserver de cours pendant cette période`);
+        }
+
+        transaction.update(classRef, {
+          waitlist: [...waitlist, { userId, joinedAt: new Date().toISOString() }],
         });
-        
-        await batch.commit();
-      } else {
-        await updateDoc(classRef, {
-          enrolledStudents: arrayRemove(userId)
+      });
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      throw error;
+    }
+  },
+
+  leaveWaitlist: async (classId, userId) => {
+    try {
+      const classRef = doc(db, 'classes', classId);
+
+      await runTransaction(db, async (transaction) => {
+        const classDoc = await transaction.get(classRef);
+
+        if (!classDoc.exists()) {
+          throw new Error('Class not found');
+        }
+
+        const classData = classDoc.data() as Class;
+
+        transaction.update(classRef, {
+          waitlist: (classData.waitlist || []).filter((entry) => entry.userId !== userId),
         });
-      }
-      
-      await get().fetchClasses();
+      });
     } catch (error) {
-      console.error('Error unenrolling from class:', error);
+      console.error('Error leaving waitlist:', error);
       throw error;
     }
   },
@@ -349,11 +1493,14 @@ export const useStore = create<Store>((set, get) => ({
       const user = get().user;
       if (!user?.schoolId) return;
 
-      const now = new Date();
+      await extendSchoolSeries(user.schoolId);
+
+      // Les cours terminés récemment restent chargés pour que le professeur puisse faire l'appel
+      const since = subDays(new Date(), ATTENDANCE_WINDOW_DAYS);
       const classesQuery = query(
         collection(db, 'classes'),
         where('schoolId', '==', user.schoolId),
-        where('datetime', '>=', now.toISOString())
+        where('datetime', '>=', since.toISOString())
       );
       
       const snapshot = await getDocs(classesQuery);
@@ -369,6 +1516,184 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  // Un lien partagé peut viser un cours hors de la fenêtre chargée par fetchClasses
+  fetchClass: async (classId) => {
+    try {
+      const classDoc = await getDoc(doc(db, 'classes', classId));
+      if (classDoc.exists()) {
+        return {
+          id: classDoc.id,
+          ...classDoc.data()
+        } as Class;
+      }
+      return null;
+    } catch (error) {
+      console.error('Error fetching class:', error);
+      throw error;
+    }
+  },
+
+  fetchSeries: async (seriesId) => {
+    try {
+      const seriesDoc = await getDoc(doc(db, 'series', seriesId));
+      if (seriesDoc.exists()) {
+        return {
+          id: seriesDoc.id,
+          ...seriesDoc.data()
+        } as ClassSeries;
+      }
+      return null;
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      throw error;
+    }
+  },
+
+  markAttendance: async (classId, studentId, status) => {
+    try {
+      await updateDoc(doc(db, 'classes', classId), {
+        [`attendance.${studentId}`]: status
+      });
+    } catch (error) {
+      console.error('Error marking attendance:', error);
+      throw error;
+    }
+  },
+
+  assignPole: async (classId, studentId, pole) => {
+    try {
+      const classRef = doc(db, 'classes', classId);
+      const rooms = get().school?.rooms;
+
+      await runTransaction(db, async (transaction) => {
+        const classDoc = await transaction.get(classRef);
+
+        if (!classDoc.exists()) {
+          throw new Error('Class not found');
+        }
+
+        const classData = classDoc.data() as Class;
+        const room = rooms?.find((candidate) => candidate.id === classData.roomId);
+
+        if (!classData.enrolledStudents.includes(studentId)) {
+          throw new Error("L'élève n'est pas inscrit à ce cours");
+        }
+
+        if (pole === null) {
+          transaction.update(classRef, { [`poleAssignments.${studentId}`]: deleteField() });
+          return;
+        }
+
+        if (!room || !getRoomPoles(room).some((candidate) => candidate.number === pole)) {
+          throw new Error("Cette barre n'existe pas dans la salle du cours");
+        }
+
+        // Une barre déjà prise est échangée avec celle de l'élève qui l'occupe
+        const occupantId = getTakenPoles(classData).get(pole);
+        if (occupantId === studentId) return;
+
+        if (occupantId && get().user?.role !== 'teacher') {
+          throw new Error("Cette barre vient d'être réservée : choisissez-en une autre");
+        }
+
+        const previousPole = classData.poleAssignments?.[studentId];
+        transaction.update(classRef, {
+          [`poleAssignments.${studentId}`]: pole,
+          ...(occupantId && {
+            [`poleAssignments.${occupantId}`]: previousPole ?? deleteField(),
+          }),
+        });
+      });
+    } catch (error) {
+      console.error('Error assigning pole:', error);
+      throw error;
+    }
+  },
+
+  clearRegularization: async (classId, studentId) => {
+    try {
+      await updateDoc(doc(db, 'classes', classId), {
+        toRegularize: arrayRemove(studentId)
+      });
+    } catch (error) {
+      console.error('Error clearing regularization:', error);
+      throw error;
+    }
+  },
+
+  fetchNotifications: async () => {
+    try {
+      const { user } = get();
+      if (!user) return;
+
+      const notificationsQuery = query(
+        collection(db, 'notifications'),
+        where('userId', '==', user.id),
+        orderBy('createdAt', 'desc'),
+        limit(NOTIFICATIONS_LIMIT)
+      );
+
+      const snapshot = await getDocs(notificationsQuery);
+      set({
+        notifications: snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        })) as AppNotification[]
+      });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      throw error;
+    }
+  },
+
+  markNotificationsRead: async () => {
+    try {
+      const unread = get().notifications.filter((notification) => !notification.read);
+      if (unread.length === 0) return;
+
+      const batch = writeBatch(db);
+      unread.forEach((notification) => {
+        batch.update(doc(db, 'notifications', notification.id), { read: true });
+      });
+      await batch.commit();
+
+      set({
+        notifications: get().notifications.map((notification) => ({ ...notification, read: true }))
+      });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  },
+
+  fetchAttendanceStats: async (schoolId) => {
+    try {
+      const classesQuery = query(
+        collection(db, 'classes'),
+        where('schoolId', '==', schoolId),
+        where('datetime', '<', new Date().toISOString())
+      );
+
+      const snapshot = await getDocs(classesQuery);
+      const stats: Record<string, AttendanceStats> = {};
+
+      snapshot.docs.forEach((doc) => {
+        const { attendance } = doc.data() as Class;
+        if (!attendance) return;
+
+        Object.entries(attendance).forEach(([studentId, status]) => {
+          stats[studentId] = stats[studentId] || { present: 0, late: 0, absent: 0 };
+          stats[studentId][status] += 1;
+        });
+      });
+
+      return stats;
+    } catch (error) {
+      console.error('Error fetching attendance stats:', error);
+      throw error;
+    }
+  },
+
   fetchSchools: async () => {
     try {
       const snapshot = await getDocs(collection(db, 'schools'));
@@ -566,45 +1891,87 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
-  updateStudentCredits: async (studentId: string, update: StudentCredit | StudentSubscription) => {
+  updateStudentCredits: async (studentId: string, update: StudentCredit | StudentCreditPack | StudentSubscription) => {
     try {
       const userRef = doc(db, 'users', studentId);
       
-      if (update.type === 'credits') {
-        await updateDoc(userRef, {
-          credits: update.amount,
-          subscription: {
-            type: 'pay-as-you-go',
-            startDate: new Date().toISOString(),
-            endDate: new Date(2099, 11, 31).toISOString(),
+      const authorId = get().user?.id;
+      if (!authorId) throw new Error('User not authenticated');
+      
+      if (update.type === 'credits' || update.type === 'pack') {
+        await runTransaction(db, async (transaction) => {
+          const userDoc = await transaction.get(userRef);
+
+          if (!userDoc.exists()) {
+            throw new Error('User not found');
+          }
+
+          const account = openCreditAccount(transaction, studentId, userDoc.data() as Omit<User, 'id'>, authorId);
+
+          if (update.type === 'pack') {
+            const purchaseDate = new Date();
+            const pack: CreditPack = {
+              id: crypto.randomUUID(),
+              templateId: update.template.id,
+              name: update.template.name,
+              size: update.template.size,
+              remaining: update.template.size,
+              purchaseDate: purchaseDate.toISOString(),
+              expiresAt: addMonths(purchaseDate, update.template.validityMonths).toISOString(),
+            };
+
+            recordCreditMovement(transaction, studentId, {
+              type: 'grant',
+              amount: pack.size,
+              authorId,
+              reason: update.reason || pack.name,
+              packId: pack.id,
+            });
+            account.creditPacks = [...account.creditPacks, pack];
+          } else if (update.mode === 'add') {
+            // Les crédits hors carnet n'expirent pas
+            recordCreditMovement(transaction, studentId, {
+              type: 'grant',
+              amount: update.amount,
+              authorId,
+              reason: update.reason,
+            });
+          } else {
+            // Une correction ajuste le solde total, et les carnets quand le nouveau solde est plus bas qu'eux
+            const { packs, corrections } = correctCredits(account, update.amount);
+            corrections.forEach(({ amount, packId }) => {
+              recordCreditMovement(transaction, studentId, {
+                type: 'correction',
+                amount,
+                authorId,
+                reason: update.reason,
+                ...(packId && { packId }),
+              });
+            });
+            account.creditPacks = packs;
           }
+
+          saveCreditAccount(transaction, studentId, account);
+        });
+      } else if (!update.plan) {
+        // Sans abonnement, l'élève réserve "à la carte" avec ses crédits
+        await updateDoc(userRef, {
+          subscription: null
         });
       } else {
         const startDate = new Date();
-        let endDate: Date;
-        
-        switch (update.plan) {
-          case 'monthly':
-            endDate = addMonths(startDate, 1);
-            break;
-          case 'quarterly':
-            endDate = addMonths(startDate, 3);
-            break;
-          case 'yearly':
-            endDate = addYears(startDate, 1);
-            break;
-          case 'pay-as-you-go':
-            endDate = new Date(2099, 11, 31);
-            break;
-        }
+        const subscription: UserSubscription = {
+          planId: update.plan.id,
+          name: update.plan.name,
+          startDate: startDate.toISOString(),
+          endDate: addMonths(startDate, update.plan.durationMonths).toISOString(),
+          quota: update.plan.quota || null,
+          ...(update.plan.allowedLevels?.length && { allowedLevels: update.plan.allowedLevels }),
+        };
 
+        // Le solde de crédits n'est plus écrasé : il ne varie qu'à travers le registre
         await updateDoc(userRef, {
-          subscription: {
-            type: update.plan,
-            startDate: startDate.toISOString(),
-            endDate: endDate.toISOString()
-          },
-          credits: update.plan === 'pay-as-you-go' ? 0 : 999
+          subscription
         });
       }
     } catch (error) {
@@ -613,6 +1980,79 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  freezeSubscription: async (studentId: string, startDate: string, endDate: string, reason?: string) => {
+    try {
+      const authorId = get().user?.id;
+      if (!authorId) throw new Error('User not authenticated');
+
+      const userRef = doc(db, 'users', studentId);
+
+      await runTransaction(db, async (transaction) => {
+        const userDoc = await transaction.get(userRef);
+
+        if (!userDoc.exists()) {
+          throw new Error('User not found');
+        }
+
+        const subscription = (userDoc.data() as Omit<User, 'id'>).subscription;
+        if (!subscription) {
+          throw new Error("Cet élève n'a pas d'abonnement à suspendre");
+        }
+
+        const freeze: SubscriptionFreeze = {
+          startDate: startOfDay(parseISO(startDate)).toISOString(),
+          endDate: endOfDay(parseISO(endDate)).toISOString(),
+          authorId,
+          createdAt: new Date().toISOString(),
+          ...(reason && { reason }),
+        };
+
+        if (isBefore(parseISO(freeze.endDate), parseISO(freeze.startDate))) {
+          throw new Error('La date de fin de la suspension doit suivre la date de début');
+        }
+
+        if (!isBefore(parseISO(freeze.startDate), parseISO(subscription.endDate))) {
+          throw new Error("La suspension doit commencer avant la fin de l'abonnement");
+        }
+
+        const overlapping = (subscription.freezes || []).some((existing) =>
+          !isBefore(parseISO(existing.endDate), parseISO(freeze.startDate)) &&
+          !isBefore(parseISO(freeze.endDate), parseISO(existing.startDate))
+        );
+        if (overlapping) {
+          throw new Error('Cette période chevauche une suspension existante');
+        }
+
+        // La durée suspendue est rendue à l'élève en fin d'abonnement
+        transaction.update(userRef, {
+          'subscription.freezes': arrayUnion(freeze),
+          'subscription.endDate': addDays(parseISO(subscription.endDate), getFreezeDays(freeze)).toISOString(),
+        });
+      });
+    } catch (error) {
+      console.error('Error freezing subscription:', error);
+      throw error;
+    }
+  },
+
+  fetchCreditLedger: async (studentId: string) => {
+    try {
+      const ledgerQuery = query(
+        collection(db, 'users', studentId, 'ledger'),
+        orderBy('createdAt', 'desc')
+      );
+
+      const snapshot = await getDocs(ledgerQuery);
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as CreditLedgerEntry[];
+    } catch (error) {
+      console.error('Error fetching credit ledger:', error);
+      throw error;
+    }
+  },
+
   fetchSchoolStudents: async (schoolId: string) => {
     try {
       const studentsQuery = query(
@@ -632,6 +2072,26 @@ export const useStore = create<Store>((set, get) => ({
     }
   },
 
+  fetchSchoolTeachers: async () => {
+    try {
+      const { school } = get();
+      if (!school) return [];
+
+      const teacherDocs = await Promise.all(
+        school.teacherIds.map((teacherId) => getDoc(doc(db, 'users', teacherId)))
+      );
+      return teacherDocs
+        .filter((teacherDoc) => teacherDoc.exists())
+        .map((teacherDoc) => ({
+          id: teacherDoc.id,
+          ...teacherDoc.data()
+        })) as User[];
+    } catch (error) {
+      console.error('Error fetching school teachers:', error);
+      throw error;
+    }
+  },
+
   fetchUserById: async (userId: string) => {
     try {
       const userDoc = await getDoc(doc(db, 'users', userId));
@@ -5,14 +5,47 @@ export interface User {
   role: 'student' | 'teacher';
   schoolId?: string;
   credits?: number;
-  subscription?: {
-    type: 'monthly' | 'quarterly' | 'yearly' | 'pay-as-you-go';
-    startDate: string;
-    endDate: string;
-  };
+  creditPacks?: CreditPack[];
+  subscription?: UserSubscription | null;
   photoUrl?: string;
 }
 
+export type ClassLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface SubscriptionQuota {
+  period: 'week' | 'month';
+  classes: number;
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  durationMonths: number;
+  quota?: SubscriptionQuota | null;
+  allowedLevels?: ClassLevel[];
+}
+
+export interface UserSubscription {
+  planId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  quota?: SubscriptionQuota | null;
+  allowedLevels?: ClassLevel[];
+  freezes?: SubscriptionFreeze[];
+  // Échéance (endDate) pour laquelle le rappel puis l'expiration ont déjà été traités
+  expiryReminderSentFor?: string;
+  expiryProcessedFor?: string;
+}
+
+export interface SubscriptionFreeze {
+  startDate: string;
+  endDate: string;
+  reason?: string;
+  authorId: string;
+  createdAt: string;
+}
+
 export interface School {
   id: string;
   name: string;
@@ -21,6 +54,65 @@ export interface School {
   logo?: string;
   instagram?: string;
   teacherIds: string[];
+  cancellationPolicy?: CancellationPolicy;
+  packTemplates?: CreditPackTemplate[];
+  subscriptionPlans?: SubscriptionPlan[];
+  subscriptionExpiryAction?: SubscriptionExpiryAction;
+  closures?: SchoolClosure[];
+  rooms?: Room[];
+}
+
+// Salle de l'école : sa capacité est son nombre de barres
+export interface Room {
+  id: string;
+  name: string;
+  staticPoles: number;
+  spinningPoles: number;
+}
+
+export type PoleType = 'static' | 'spinning';
+
+// Barre d'une salle, numérotée rangée par rangée à partir du miroir
+export interface Pole {
+  number: number;
+  type: PoleType;
+  row: number;
+}
+
+// Fermeture de l'école : un jour (startDate = endDate) ou une période, bornes incluses (yyyy-MM-dd)
+export interface SchoolClosure {
+  id: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+}
+
+// Sort des réservations couvertes par un abonnement arrivé à échéance
+export type SubscriptionExpiryAction = 'unenroll' | 'flag';
+
+export interface CreditPackTemplate {
+  id: string;
+  name: string;
+  size: number;
+  validityMonths: number;
+}
+
+export interface CreditPack {
+  id: string;
+  templateId?: string;
+  name: string;
+  size: number;
+  remaining: number;
+  purchaseDate: string;
+  expiresAt: string;
+  expiredCredits?: number;
+}
+
+export interface CancellationPolicy {
+  cutoffHours: number;
+  refundBeforeCutoff: boolean;
+  refundAfterCutoff: boolean;
+  lateCancellationPenalty?: number;
 }
 
 export interface Class {
@@ -32,30 +124,150 @@ export interface Class {
   maxStudents: number;
   enrolledStudents: string[];
   isRecurring: boolean;
-  level: 'beginner' | 'intermediate' | 'advanced';
+  level: ClassLevel;
   description?: string;
+  seriesId?: string | null;
+  // Ancien identifiant de série, remplacé par seriesId (voir src/scripts/migrateClassSeries.ts)
   baseId?: string | null;
   schoolId: string;
+  waitlist?: WaitlistEntry[];
+  paidWithCredits?: string[];
+  attendance?: Record<string, AttendanceStatus>;
+  toRegularize?: string[];
+  // Absent sur les cours créés avant l'annulation par l'école : ils sont programmés
+  status?: ClassStatus;
+  cancellation?: ClassCancellation;
+  // Professeur qui remplace teacherId sur cette occurrence
+  substituteTeacherId?: string | null;
+  roomId?: string | null;
+  // Numéro de la barre de chaque élève inscrit qui en a choisi une
+  poleAssignments?: Record<string, number>;
+}
+
+export type ClassStatus = 'scheduled' | 'cancelled';
+
+// Un cours annulé reste visible : les élèves inscrits sont conservés, remboursés et prévenus
+export interface ClassCancellation {
+  reason: string;
+  authorId: string;
+  cancelledAt: string;
 }
 
+export type AttendanceStatus = 'present' | 'absent' | 'late';
+
+export interface AttendanceStats {
+  present: number;
+  late: number;
+  absent: number;
+}
+
+export interface WaitlistEntry {
+  userId: string;
+  joinedAt: string;
+}
+
+export interface EnrollmentReport {
+  enrolled: string[];
+  full: string[];
+  suspended: string[];
+}
+
+export type ScheduleConflictReason = 'teacher' | 'room';
+
+// Cours existant qui chevauche un créneau demandé
+export interface ScheduleConflict {
+  classId: string;
+  title: string;
+  datetime: string;
+  duration: number;
+  reason: ScheduleConflictReason;
+}
+
+export interface RecurrenceRule {
+  frequency: 'weekly';
+  interval: number;
+  // Jours de la semaine (0 = dimanche)
+  weekdays: number[];
+  // Fin de la série : dernier jour inclus (yyyy-MM-dd) ou nombre de cours
+  until?: string | null;
+  count?: number | null;
+}
+
+// Modèle d'un cours récurrent : chaque occurrence (document de classes) y fait référence par seriesId
+export interface ClassSeries {
+  id: string;
+  schoolId: string;
+  teacherId: string;
+  title: string;
+  duration: number;
+  maxStudents: number;
+  level: ClassLevel;
+  description?: string;
+  roomId?: string | null;
+  rule: RecurrenceRule;
+  startDate: string;
+  // Arrêt de la série (exclu), null tant qu'elle continue
+  endDate: string | null;
+  // Les cours de la règle jusqu'à cette date ont été créés ; les suivants le sont au fil de l'eau
+  materializedUntil: string;
+  createdAt: string;
+}
+
+// Portée d'une modification sur un cours récurrent
+export type SeriesEditScope = 'occurrence' | 'following' | 'series';
+
 export interface ClassFormData {
   title: string;
   datetime: string;
   duration: number;
   maxStudents: number;
   isRecurring: boolean;
-  level: 'beginner' | 'intermediate' | 'advanced';
+  level: ClassLevel;
   description?: string;
+  roomId?: string | null;
+  recurrence?: RecurrenceRule;
 }
 
 export interface StudentCredit {
   type: 'credits';
+  mode: 'add' | 'set';
+  amount: number;
+  reason?: string;
+}
+
+export interface StudentCreditPack {
+  type: 'pack';
+  template: CreditPackTemplate;
+  reason?: string;
+}
+
+export type CreditLedgerEntryType = 'grant' | 'consume' | 'refund' | 'expiry' | 'correction';
+
+export interface CreditLedgerEntry {
+  id: string;
+  type: CreditLedgerEntryType;
   amount: number;
+  authorId: string;
+  reason?: string;
+  classId?: string;
+  packId?: string;
+  createdAt: string;
 }
 
 export interface StudentSubscription {
   type: 'subscription';
-  plan: 'monthly' | 'quarterly' | 'yearly' | 'pay-as-you-go';
-  startDate: string;
-  endDate: string;
-}
\ No newline at end of file
+  plan: SubscriptionPlan | null;
+}
+
+export type NotificationType = 'subscription-expiring' | 'subscription-expired' | 'class-cancelled' | 'teacher-changed' | 'class-rescheduled';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  schoolId?: string;
+  type: NotificationType;
+  message: string;
+  classId?: string;
+  read: boolean;
+  createdAt: string;
+}
@@ -0,0 +1,366 @@
+import {
+  differenceInCalendarDays,
+  differenceInMinutes,
+  endOfMonth,
+  endOfWeek,
+  isAfter,
+  isBefore,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  format
+} from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  CancellationPolicy,
+  Class,
+  CreditLedgerEntry,
+  CreditPack,
+  CreditPackTemplate,
+  Pole,
+  Room,
+  SubscriptionExpiryAction,
+  SubscriptionFreeze,
+  SubscriptionPlan,
+  SubscriptionQuota,
+  User,
+  UserSubscription
+} from '../types';
+
+// Sans politique définie par l'école, toute désinscription est remboursée
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  cutoffHours: 0,
+  refundBeforeCutoff: true,
+  refundAfterCutoff: true,
+  lateCancellationPenalty: 0,
+};
+
+// Carnets proposés tant que l'école n'a pas configuré les siens
+export const DEFAULT_PACK_TEMPLATES: CreditPackTemplate[] = [
+  { id: 'pack-5', name: 'Carnet 5 cours', size: 5, validityMonths: 3 },
+  { id: 'pack-10', name: 'Carnet 10 cours', size: 10, validityMonths: 6 },
+];
+
+// Formules proposées tant que l'école n'a pas configuré les siennes.
+// Les identifiants des formules illimitées reprennent les anciens types d'abonnement.
+export const DEFAULT_SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  { id: 'monthly', name: 'Illimité mensuel', durationMonths: 1, quota: null },
+  { id: 'quarterly', name: 'Illimité trimestriel', durationMonths: 3, quota: null },
+  { id: 'yearly', name: 'Illimité annuel', durationMonths: 12, quota: null },
+  { id: 'weekly-1', name: '1 cours/semaine', durationMonths: 3, quota: { period: 'week', classes: 1 } },
+  { id: 'weekly-2', name: '2 cours/semaine', durationMonths: 3, quota: { period: 'week', classes: 2 } },
+];
+
+// Sans choix de l'école, les réservations non couvertes sont signalées au professeur plutôt qu'annulées
+export const DEFAULT_SUBSCRIPTION_EXPIRY_ACTION: SubscriptionExpiryAction = 'flag';
+
+export const SUBSCRIPTION_REMINDER_DAYS = 7;
+
+const legacySubscriptionNames: Record<string, string> = {
+  monthly: 'Abonnement mensuel',
+  quarterly: 'Abonnement trimestriel',
+  yearly: 'Abonnement annuel',
+};
+
+// Abonnement de l'élève en cours à une date donnée (celle du cours pour une réservation)
+export function getActiveSubscription(
+  user: Pick<User, 'subscription'>,
+  at: Date = new Date()
+): UserSubscription | null {
+  const subscription = user.subscription;
+  if (!subscription) return null;
+
+  // Les abonnements enregistrés avant les formules par école n'ont pas de planId :
+  // tous donnaient un accès illimité, sauf l'ancien type "à la carte"
+  const legacyType = (subscription as { type?: string }).type;
+  if (!subscription.planId && (!legacyType || !legacySubscriptionNames[legacyType])) return null;
+
+  if (isBefore(at, parseISO(subscription.startDate)) || !isBefore(at, parseISO(subscription.endDate))) {
+    return null;
+  }
+
+  return subscription.planId
+    ? subscription
+    : { ...subscription, planId: legacyType!, name: legacySubscriptionNames[legacyType!], quota: null };
+}
+
+export function hasUnlimitedSubscription(user: Pick<User, 'subscription'>, at: Date = new Date()): boolean {
+  const subscription = getActiveSubscription(user, at);
+  return !!subscription && !subscription.quota && !subscription.allowedLevels?.length;
+}
+
+// Suspension de l'abonnement en cours à une date donnée : aucune réservation n'est possible pendant cette période
+export function getSubscriptionFreeze(
+  user: Pick<User, 'subscription'>,
+  at: Date = new Date()
+): SubscriptionFreeze | null {
+  return user.subscription?.freezes?.find((freeze) =>
+    !isBefore(at, parseISO(freeze.startDate)) && !isAfter(at, parseISO(freeze.endDate))
+  ) || null;
+}
+
+// Nombre de jours ajoutés à la fin de l'abonnement, bornes comprises
+export function getFreezeDays(freeze: Pick<SubscriptionFreeze, 'startDate' | 'endDate'>): number {
+  return differenceInCalendarDays(parseISO(freeze.endDate), parseISO(freeze.startDate)) + 1;
+}
+
+export function formatFreezePeriod(freeze: Pick<SubscriptionFreeze, 'startDate' | 'endDate'>): string {
+  return `du ${format(parseISO(freeze.startDate), 'd MMMM', { locale: fr })} au ${format(parseISO(freeze.endDate), 'd MMMM yyyy', { locale: fr })}`;
+}
+
+export function getSubscriptionExpiryStatus(
+  subscription: Pick<UserSubscription, 'endDate'>,
+  now: Date = new Date()
+): 'active' | 'expiring' | 'expired' {
+  const endDate = parseISO(subscription.endDate);
+  if (!isAfter(endDate, now)) return 'expired';
+  return differenceInCalendarDays(endDate, now) <= SUBSCRIPTION_REMINDER_DAYS ? 'expiring' : 'active';
+}
+
+export function getQuotaPeriodStart(quota: SubscriptionQuota, datetime: string): Date {
+  const date = parseISO(datetime);
+  return quota.period === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+}
+
+export function getQuotaPeriodEnd(quota: SubscriptionQuota, datetime: string): Date {
+  const date = parseISO(datetime);
+  return quota.period === 'week' ? endOfWeek(date, { weekStartsOn: 1 }) : endOfMonth(date);
+}
+
+export function formatQuota(quota: SubscriptionQuota): string {
+  return `${quota.classes} cours/${quota.period === 'week' ? 'semaine' : 'mois'}`;
+}
+
+export type SubscriptionCoverage = 'covered' | 'quota-exceeded' | 'not-covered';
+
+// Indique si un cours est couvert par l'abonnement de l'élève. Un cours couvert consomme
+// une place du quota dans quotaUsage (clé : début de période), ce qui permet d'enchaîner
+// les réservations d'une série. Un cours non couvert se paie en crédits.
+export function claimSubscriptionSlot(
+  user: Pick<User, 'subscription'>,
+  occurrence: Pick<Class, 'datetime' | 'level'>,
+  quotaUsage: Map<string, number>
+): SubscriptionCoverage {
+  const subscription = getActiveSubscription(user, parseISO(occurrence.datetime));
+  if (!subscription) return 'not-covered';
+
+  if (subscription.allowedLevels?.length && !subscription.allowedLevels.includes(occurrence.level)) {
+    return 'not-covered';
+  }
+
+  if (!subscription.quota) return 'covered';
+
+  const periodKey = getQuotaPeriodStart(subscription.quota, occurrence.datetime).toISOString();
+  const used = quotaUsage.get(periodKey) || 0;
+
+  if (used >= subscription.quota.classes) return 'quota-exceeded';
+
+  quotaUsage.set(periodKey, used + 1);
+  return 'covered';
+}
+
+// Sans salle, le nombre d'élèves d'un cours est limité comme avant l'inventaire des barres
+export const MAX_STUDENTS_WITHOUT_ROOM = 20;
+
+export function getRoomCapacity(room: Pick<Room, 'staticPoles' | 'spinningPoles'>): number {
+  return room.staticPoles + room.spinningPoles;
+}
+
+export function describeRoom(room: Room): string {
+  const poles = [
+    room.staticPoles > 0 && `${room.staticPoles} statique${room.staticPoles > 1 ? 's' : ''}`,
+    room.spinningPoles > 0 && `${room.spinningPoles} spinning`,
+  ].filter(Boolean);
+  const capacity = getRoomCapacity(room);
+
+  return `${room.name} : ${capacity} barre${capacity > 1 ? 's' : ''} (${poles.join(', ')})`;
+}
+
+const POLES_PER_ROW = 4;
+
+// Plan de la salle : les barres statiques d'abord, puis les spinning, en rangées depuis le miroir
+export function getRoomPoles(room: Pick<Room, 'staticPoles' | 'spinningPoles'>): Pole[] {
+  return Array.from({ length: getRoomCapacity(room) }, (_, index) => ({
+    number: index + 1,
+    type: index < room.staticPoles ? 'static' : 'spinning',
+    row: Math.floor(index / POLES_PER_ROW),
+  }));
+}
+
+// Élève qui occupe chaque barre du cours
+export function getTakenPoles(occurrence: Pick<Class, 'poleAssignments'>): Map<number, string> {
+  return new Map(
+    Object.entries(occurrence.poleAssignments || {}).map(([studentId, pole]) => [pole, studentId])
+  );
+}
+
+export function formatPole(pole: Pole): string {
+  return `Barre ${pole.number} (${pole.type === 'static' ? 'statique' : 'spinning'}${pole.row === 0 ? ', près du miroir' : ''})`;
+}
+
+// Capacité maximale d'un cours : les barres de sa salle, ou la limite historique sans salle
+export function getMaxStudentsLimit(rooms: Room[] = [], roomId?: string | null): number {
+  const room = roomId ? rooms.find((candidate) => candidate.id === roomId) : undefined;
+  return room ? getRoomCapacity(room) : MAX_STUDENTS_WITHOUT_ROOM;
+}
+
+// Professeur qui assure réellement le cours, remplaçant compris
+export function getOccurrenceTeacherId(occurrence: Pick<Class, 'teacherId' | 'substituteTeacherId'>): string {
+  return occurrence.substituteTeacherId || occurrence.teacherId;
+}
+
+// Une réservation sans suivi paidWithCredits (antérieure à ce suivi) n'a jamais été débitée : rien à rembourser
+export function wasPaidWithCredits(occurrence: Pick<Class, 'paidWithCredits'>, userId: string): boolean {
+  return occurrence.paidWithCredits?.includes(userId) ?? false;
+}
+
+export function insufficientCreditsMessage(required: number, available: number, quotaExceeded = false): string {
+  return (quotaExceeded ? "Le quota de votre abonnement est atteint et vos crédits ne suffisent pas. " : '') +
+    `Crédits insuffisants : ${required} crédit${required > 1 ? 's' : ''} nécessaire${required > 1 ? 's' : ''}, ` +
+    `${available} disponible${available > 1 ? 's' : ''}. Contactez votre professeur pour recharger votre compte.`;
+}
+
+export function isLateCancellation(policy: CancellationPolicy, classDatetime: string, now: Date = new Date()): boolean {
+  return differenceInMinutes(parseISO(classDatetime), now) < policy.cutoffHours * 60;
+}
+
+// Crédits rendus et pénalité appliquée à un élève "à la carte" qui se désinscrit d'un cours
+export function getCancellationCredits(
+  policy: CancellationPolicy,
+  classDatetime: string,
+  now: Date = new Date()
+): { refund: number; penalty: number } {
+  if (!isLateCancellation(policy, classDatetime, now)) {
+    return { refund: policy.refundBeforeCutoff ? 1 : 0, penalty: 0 };
+  }
+
+  return {
+    refund: policy.refundAfterCutoff ? 1 : 0,
+    penalty: policy.lateCancellationPenalty || 0,
+  };
+}
+
+export function computeLedgerBalance(entries: Pick<CreditLedgerEntry, 'amount'>[]): number {
+  return entries.reduce((balance, entry) => balance + entry.amount, 0);
+}
+
+export function isPackActive(pack: CreditPack, now: Date = new Date()): boolean {
+  return isAfter(parseISO(pack.expiresAt), now);
+}
+
+function byExpiry(a: CreditPack, b: CreditPack): number {
+  return parseISO(a.expiresAt).getTime() - parseISO(b.expiresAt).getTime();
+}
+
+// Les crédits restants d'un carnet expiré sont perdus : ils sont conservés dans expiredCredits pour l'affichage
+export function expirePacks(packs: CreditPack[], now: Date = new Date()): { packs: CreditPack[]; expired: CreditPack[] } {
+  const expired: CreditPack[] = [];
+  const updatedPacks = packs.map((pack) => {
+    if (isPackActive(pack, now) || pack.remaining === 0) return pack;
+
+    expired.push(pack);
+    return { ...pack, remaining: 0, expiredCredits: pack.remaining };
+  });
+
+  return { packs: updatedPacks, expired };
+}
+
+// Un crédit est pris dans le carnet qui expire le plus tôt.
+// Sans carnet disponible, il est pris sur le solde hors carnet (crédits attribués à l'unité).
+export function consumeFromPacks(packs: CreditPack[], now: Date = new Date()): { packs: CreditPack[]; packId?: string } {
+  const pack = packs
+    .filter((candidate) => isPackActive(candidate, now) && candidate.remaining > 0)
+    .sort(byExpiry)[0];
+
+  if (!pack) return { packs };
+
+  return {
+    packs: packs.map((candidate) =>
+      candidate.id === pack.id ? { ...candidate, remaining: candidate.remaining - 1 } : candidate
+    ),
+    packId: pack.id,
+  };
+}
+
+// Un crédit remboursé retourne dans le carnet actif entamé qui expire le plus tôt
+export function refundToPacks(packs: CreditPack[], now: Date = new Date()): { packs: CreditPack[]; packId?: string } {
+  const pack = packs
+    .filter((candidate) => isPackActive(candidate, now) && candidate.remaining < candidate.size)
+    .sort(byExpiry)[0];
+
+  if (!pack) return { packs };
+
+  return {
+    packs: packs.map((candidate) =>
+      candidate.id === pack.id ? { ...candidate, remaining: candidate.remaining + 1 } : candidate
+    ),
+    packId: pack.id,
+  };
+}
+
+// Ramène le solde à target. La somme des carnets ne doit jamais dépasser le solde, sinon leur expiration
+// retirerait des crédits déjà annulés : un solde plus bas que les carnets les diminue d'abord, en commençant
+// par celui qui expire le plus tôt. Le reste de l'écart porte sur les crédits hors carnet.
+export function correctCredits(
+  account: { credits: number; creditPacks: CreditPack[] },
+  target: number,
+  now: Date = new Date()
+): { packs: CreditPack[]; corrections: { amount: number; packId?: string }[] } {
+  const activePacks = account.creditPacks
+    .filter((pack) => isPackActive(pack, now) && pack.remaining > 0)
+    .sort(byExpiry);
+  let excess = activePacks.reduce((total, pack) => total + pack.remaining, 0) - Math.max(target, 0);
+
+  const reductions = new Map<string, number>();
+  for (const pack of activePacks) {
+    if (excess <= 0) break;
+    const reduction = Math.min(pack.remaining, excess);
+    reductions.set(pack.id, reduction);
+    excess -= reduction;
+  }
+
+  const corrections: { amount: number; packId?: string }[] = [...reductions].map(([packId, reduction]) => ({
+    amount: -reduction,
+    packId,
+  }));
+  const looseAmount = target - account.credits - corrections.reduce((total, correction) => total + correction.amount, 0);
+  if (looseAmount !== 0) corrections.push({ amount: looseAmount });
+
+  return {
+    packs: account.creditPacks.map((pack) =>
+      reductions.has(pack.id) ? { ...pack, remaining: pack.remaining - reductions.get(pack.id)! } : pack
+    ),
+    corrections,
+  };
+}
+
+// Solde utilisable : les crédits restants des carnets expirés ne comptent plus, même s'ils n'ont pas encore été soldés
+export function getAvailableCredits(user: Pick<User, 'credits' | 'creditPacks'>, now: Date = new Date()): number {
+  const { expired } = expirePacks(user.creditPacks || [], now);
+  // Un solde négatif hérité d'avant le plafonnement des pénalités s'affiche comme zéro
+  return Math.max(0, (user.credits || 0) - expired.reduce((total, pack) => total + pack.remaining, 0));
+}
+
+// Indique si l'élève peut réserver ce cours avec son abonnement ou ses crédits actuels.
+// Le quota est estimé à partir des cours déjà chargés : la réservation le revérifie côté serveur.
+export function isBookableWithPlan(
+  user: Pick<User, 'id' | 'subscription' | 'credits' | 'creditPacks'>,
+  occurrence: Pick<Class, 'datetime' | 'level' | 'enrolledStudents' | 'maxStudents'>,
+  loadedClasses: Class[],
+  now: Date = new Date()
+): boolean {
+  if (occurrence.enrolledStudents.length >= occurrence.maxStudents) return false;
+  if (getSubscriptionFreeze(user, parseISO(occurrence.datetime))) return false;
+  if (getAvailableCredits(user, now) >= 1) return true;
+
+  const quotaUsage = new Map<string, number>();
+  loadedClasses
+    .filter((booked) =>
+      booked.status !== 'cancelled' &&
+      booked.enrolledStudents.includes(user.id) &&
+      !booked.paidWithCredits?.includes(user.id)
+    )
+    .forEach((booked) => claimSubscriptionSlot(user, booked, quotaUsage));
+
+  return claimSubscriptionSlot(user, occurrence, quotaUsage) === 'covered';
+}
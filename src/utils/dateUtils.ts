@@ -1,4 +1,29 @@
-import { addDays, addWeeks, format, getDay, setHours, setMinutes, startOfToday, addYears, isBefore } from 'date-fns';
+import {
+  addDays,
+  addWeeks,
+  format,
+  getDay,
+  setHours,
+  setMinutes,
+  startOfToday,
+  addYears,
+  isAfter,
+  isBefore,
+  startOfWeek,
+  endOfDay,
+  parseISO,
+  differenceInCalendarDays
+} from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { RecurrenceRule, SchoolClosure } from '../types';
+
+// Garde-fou contre une règle sans fin ou mal saisie
+const MAX_OCCURRENCES = 366;
+
+// Les cours d'une série sont créés au fil de l'eau, jusqu'à ce nombre de semaines à l'avance
+export const SERIES_HORIZON_WEEKS = 12;
+
+export const WEEKDAY_LABELS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
 
 export function getNextDayOfWeek(dayIndex: number, timeString: string): Date {
   const [hours, minutes] = timeString.split(':').map(Number);
@@ -22,14 +47,83 @@ export function getNextDayOfWeek(dayIndex: number, timeString: string): Date {
   return date;
 }
 
-export function generateRecurringDates(startDate: Date, endDate: Date): Date[] {
+// Place une date sur un autre jour de la même semaine (du lundi au dimanche) et à un autre horaire
+export function moveToWeekdayAndTime(date: Date, dayIndex: number, timeString: string): Date {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  const weekStart = startOfWeek(date, { weekStartsOn: 1 });
+  return setMinutes(setHours(addDays(weekStart, (dayIndex + 6) % 7), hours), minutes);
+}
+
+// Applique à une occurrence d'une série le décalage de jour et le nouvel horaire donnés à une autre
+// occurrence (from -> to) : chaque cours garde sa propre semaine.
+export function shiftOccurrence(occurrence: Date, from: Date, to: Date): Date {
+  const shifted = addDays(occurrence, differenceInCalendarDays(to, from));
+  return setMinutes(setHours(shifted, to.getHours()), to.getMinutes());
+}
+
+// Ordre d'affichage des jours : du lundi au dimanche
+export function sortWeekdays(weekdays: number[]): number[] {
+  return [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+}
+
+// Dates des cours d'une règle de récurrence, à partir de la première occurrence (start) dont elles
+// reprennent l'horaire. La série s'arrête à rule.until (inclus) ou après rule.count cours ; sans fin
+// définie, la génération s'arrête à horizon (un an après le début par défaut).
+// Avec after, seules les dates postérieures sont renvoyées (count reste compté depuis start).
+export function generateOccurrences(start: Date, rule: RecurrenceRule, horizon?: Date, after?: Date): Date[] {
   const dates: Date[] = [];
-  let currentDate = startDate;
+  const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+  const limit = horizon || (until || rule.count ? null : addYears(start, 1));
+  const weekdays = sortWeekdays(rule.weekdays);
+  const time = format(start, 'HH:mm');
+  let index = 0;
+
+  if (weekdays.length === 0) return dates;
 
-  while (isBefore(currentDate, endDate)) {
-    dates.push(currentDate);
-    currentDate = addWeeks(currentDate, 1);
+  for (let week = startOfWeek(start, { weekStartsOn: 1 }); ; week = addWeeks(week, Math.max(rule.interval, 1))) {
+    for (const weekday of weekdays) {
+      const date = moveToWeekdayAndTime(week, weekday, time);
+      if (isBefore(date, start)) continue;
+
+      if (
+        (until && isAfter(date, until)) ||
+        (limit && !isBefore(date, limit)) ||
+        (rule.count && index >= rule.count) ||
+        dates.length >= MAX_OCCURRENCES
+      ) {
+        return dates;
+      }
+
+      index++;
+      if (!after || isAfter(date, after)) {
+        dates.push(date);
+      }
+    }
   }
+}
+
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const days = sortWeekdays(rule.weekdays).map((weekday) => WEEKDAY_LABELS[weekday]);
+  const dayList = days.length > 1 ? `${days.slice(0, -1).join(', ')} et ${days[days.length - 1]}` : days[0];
+  const frequency = rule.interval > 1 ? `Toutes les ${rule.interval} semaines` : 'Chaque semaine';
+  const end = rule.until
+    ? `, jusqu'au ${format(parseISO(rule.until), 'd MMMM yyyy', { locale: fr })}`
+    : rule.count
+    ? `, ${rule.count} cours`
+    : '';
 
-  return dates;
-}
\ No newline at end of file
+  return `${frequency} le ${dayList}${end}`;
+}
+
+export function getClosureOn(date: Date, closures: SchoolClosure[] = []): SchoolClosure | null {
+  const day = format(date, 'yyyy-MM-dd');
+  return closures.find((closure) => closure.startDate <= day && day <= closure.endDate) || null;
+}
+
+export function formatClosurePeriod(closure: Pick<SchoolClosure, 'startDate' | 'endDate'>): string {
+  const startDate = parseISO(closure.startDate);
+  if (closure.startDate === closure.endDate) {
+    return `le ${format(startDate, 'd MMMM yyyy', { locale: fr })}`;
+  }
+  return `du ${format(startDate, 'd MMMM', { locale: fr })} au ${format(parseISO(closure.endDate), 'd MMMM yyyy', { locale: fr })}`;
+}
@@ -0,0 +1,88 @@
+import { parseISO } from 'date-fns';
+import { Class, ClassLevel } from '../types';
+import { getOccurrenceTeacherId } from './bookingUtils';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+export interface ClassFilters {
+  search: string;
+  level: ClassLevel | '';
+  weekday: number | null;
+  timeOfDay: TimeOfDay | '';
+  teacherId: string;
+  bookableOnly: boolean;
+}
+
+export const EMPTY_CLASS_FILTERS: ClassFilters = {
+  search: '',
+  level: '',
+  weekday: null,
+  timeOfDay: '',
+  teacherId: '',
+  bookableOnly: false,
+};
+
+export const timeOfDayOptions: { value: TimeOfDay; label: string; startHour: number; endHour: number }[] = [
+  { value: 'morning', label: 'Matin (avant 12h)', startHour: 0, endHour: 12 },
+  { value: 'afternoon', label: 'Après-midi (12h-18h)', startHour: 12, endHour: 18 },
+  { value: 'evening', label: 'Soir (après 18h)', startHour: 18, endHour: 24 },
+];
+
+const levels: ClassLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+// Les filtres vivent dans l'URL : une recherche se partage et survit au rechargement de la page.
+// Les valeurs inconnues sont ignorées plutôt que de vider la liste.
+export function parseClassFilters(params: URLSearchParams): ClassFilters {
+  const level = params.get('niveau') as ClassLevel | null;
+  const weekday = Number(params.get('jour'));
+  const timeOfDay = params.get('moment') as TimeOfDay | null;
+
+  return {
+    search: params.get('q') || '',
+    level: level && levels.includes(level) ? level : '',
+    weekday: params.has('jour') && Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : null,
+    timeOfDay: timeOfDay && timeOfDayOptions.some((option) => option.value === timeOfDay) ? timeOfDay : '',
+    teacherId: params.get('prof') || '',
+    bookableOnly: params.get('reservable') === '1',
+  };
+}
+
+export function toSearchParams(filters: ClassFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set('q', filters.search);
+  if (filters.level) params.set('niveau', filters.level);
+  if (filters.weekday !== null) params.set('jour', String(filters.weekday));
+  if (filters.timeOfDay) params.set('moment', filters.timeOfDay);
+  if (filters.teacherId) params.set('prof', filters.teacherId);
+  if (filters.bookableOnly) params.set('reservable', '1');
+  return params;
+}
+
+export function hasActiveFilters(filters: ClassFilters): boolean {
+  return toSearchParams(filters).toString() !== '';
+}
+
+// Recherche insensible à la casse et aux accents : "debutant" trouve "Débutant"
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Le filtre "réservable avec ma formule" dépend du compte de l'élève : il est appliqué à part
+export function matchesClassFilters(classData: Class, filters: ClassFilters): boolean {
+  const start = parseISO(classData.datetime);
+
+  if (filters.level && classData.level !== filters.level) return false;
+  if (filters.weekday !== null && start.getDay() !== filters.weekday) return false;
+
+  if (filters.timeOfDay) {
+    const option = timeOfDayOptions.find((candidate) => candidate.value === filters.timeOfDay)!;
+    if (start.getHours() < option.startHour || start.getHours() >= option.endHour) return false;
+  }
+
+  if (filters.teacherId && getOccurrenceTeacherId(classData) !== filters.teacherId) return false;
+
+  const search = normalize(filters.search.trim());
+  if (search && !normalize(`${classData.title} ${classData.description || ''}`).includes(search)) return false;
+
+  return true;
+}
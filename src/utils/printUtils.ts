@@ -0,0 +1,61 @@
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Class, Room, User } from '../types';
+import { getRoomPoles } from './bookingUtils';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Feuille d'appel imprimable : les élèves sont classés par barre, ceux sans barre à la fin
+export function printRoster(classData: Class, students: User[], room?: Room) {
+  const poles = room ? getRoomPoles(room) : [];
+  const assignments = classData.poleAssignments || {};
+  const rows = [...students]
+    .sort((a, b) => (assignments[a.id] ?? Infinity) - (assignments[b.id] ?? Infinity) || a.name.localeCompare(b.name))
+    .map((student) => {
+      const pole = poles.find((candidate) => candidate.number === assignments[student.id]);
+      return `<tr>
+        <td>${pole ? pole.number : ''}</td>
+        <td>${pole ? (pole.type === 'static' ? 'Statique' : 'Spinning') : ''}</td>
+        <td>${escapeHtml(student.name)}</td>
+        <td class="check"></td>
+      </tr>`;
+    })
+    .join('');
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  const date = format(parseISO(classData.datetime), "EEEE d MMMM yyyy 'à' HH'h'mm", { locale: fr });
+  printWindow.document.write(`<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(classData.title)} · ${date}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; }
+    h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+    p { color: #555; margin-top: 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; }
+    th, td { border: 1px solid #ccc; padding: 0.5rem; text-align: left; }
+    .check { width: 6rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(classData.title)}</h1>
+  <p>${date}${room ? ` · ${escapeHtml(room.name)}` : ''} · ${students.length} élève${students.length > 1 ? 's' : ''}</p>
+  <table>
+    <thead><tr><th>Barre</th><th>Type</th><th>Élève</th><th class="check">Présence</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,81 @@
+import { addMinutes, format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Class, ScheduleConflict, ScheduleConflictReason } from '../types';
+import { getOccurrenceTeacherId } from './bookingUtils';
+
+// Durée minimale d'un cours, commune au formulaire et au redimensionnement dans le calendrier
+export const MIN_CLASS_DURATION = 30;
+
+// Durée maximale d'un cours, qui borne la recherche des chevauchements
+export const MAX_CLASS_DURATION = 180;
+
+// Créneau qu'un cours s'apprête à occuper
+export interface ScheduleSlot {
+  datetime: string;
+  duration: number;
+  teacherId: string;
+  roomId?: string | null;
+}
+
+// Levée par addClass, updateClass et assignSubstitute tant que les chevauchements n'ont pas été confirmés.
+// Une salle déjà réservée bloque l'enregistrement : ce conflit-là ne peut pas être confirmé.
+export class ScheduleConflictError extends Error {
+  conflicts: ScheduleConflict[];
+
+  constructor(conflicts: ScheduleConflict[]) {
+    super(`Conflit d'horaire avec ${conflicts.length} cours`);
+    this.name = 'ScheduleConflictError';
+    this.conflicts = conflicts;
+  }
+
+  get isBlocking(): boolean {
+    return this.conflicts.some((conflict) => conflict.reason === 'room');
+  }
+}
+
+export function slotsOverlap(
+  a: Pick<ScheduleSlot, 'datetime' | 'duration'>,
+  b: Pick<ScheduleSlot, 'datetime' | 'duration'>
+): boolean {
+  const startA = parseISO(a.datetime);
+  const startB = parseISO(b.datetime);
+  return startA < addMinutes(startB, b.duration) && startB < addMinutes(startA, a.duration);
+}
+
+function getConflictReason(slot: ScheduleSlot, existing: Class): ScheduleConflictReason | null {
+  if (!slotsOverlap(slot, existing)) return null;
+  if (slot.roomId && existing.roomId === slot.roomId) return 'room';
+  if (getOccurrenceTeacherId(existing) === slot.teacherId) return 'teacher';
+  return null;
+}
+
+// Cours existants qui occupent le même professeur ou la même salle sur l'un des créneaux.
+// Les cours annulés libèrent leur créneau.
+export function findScheduleConflicts(slots: ScheduleSlot[], existingClasses: Class[]): ScheduleConflict[] {
+  return existingClasses
+    .filter((existing) => existing.status !== 'cancelled')
+    .sort((a, b) => a.datetime.localeCompare(b.datetime))
+    .flatMap((existing) => {
+      const reasons = slots.map((slot) => getConflictReason(slot, existing));
+      const reason = reasons.includes('room') ? 'room' : reasons.includes('teacher') ? 'teacher' : null;
+      if (!reason) return [];
+
+      return [{
+        classId: existing.id,
+        title: existing.title,
+        datetime: existing.datetime,
+        duration: existing.duration,
+        reason,
+      }];
+    });
+}
+
+const conflictReasonLabels: Record<ScheduleConflictReason, string> = {
+  teacher: 'même professeur',
+  room: 'salle déjà réservée',
+};
+
+export function formatScheduleConflict(conflict: ScheduleConflict): string {
+  return `${conflict.title} · ${format(parseISO(conflict.datetime), "EEEE d MMMM 'à' HH'h'mm", { locale: fr })} ` +
+    `(${conflict.duration} min, ${conflictReasonLabels[conflict.reason]})`;
+}
@@ -0,0 +1,18 @@
+// Sur mobile, la feuille de partage du système permet d'envoyer le lien par WhatsApp ou SMS ;
+// ailleurs le lien est copié dans le presse-papiers
+export async function shareLink(title: string, path: string): Promise<void> {
+  const url = `${window.location.origin}${path}`;
+
+  if (navigator.share) {
+    try {
+      await navigator.share({ title, url });
+    } catch (error) {
+      // Fermer la feuille de partage n'est pas une erreur
+      if (!(error instanceof DOMException && error.name === 'AbortError')) throw error;
+    }
+    return;
+  }
+
+  await navigator.clipboard.writeText(url);
+  alert('Lien copié dans le presse-papiers');
+}